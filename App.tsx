@@ -23,7 +23,11 @@ const App: React.FC = () => {
     explainAgent,
     setExplainAgent,
     handleExecuteCode,
-    handleExecutePlan
+    handleExecutePlan,
+    handleResumeGraph,
+    handleDiscardInterruptedRun,
+    handleStepApproval,
+    togglePlanStepApproval
   } = useAppContext();
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -86,6 +90,10 @@ const App: React.FC = () => {
                                 onExecutePlan={(plan) => handleExecutePlan(plan, [])}
                                 onRetryPlan={(plan) => handleExecutePlan(plan, [])}
                                 onRequestFeedback={(msgId, taskType) => setFeedbackModal({ msgId, taskType })}
+                                onResumeRun={handleResumeGraph}
+                                onDiscardRun={handleDiscardInterruptedRun}
+                                onStepApproval={handleStepApproval}
+                                onToggleStepApproval={togglePlanStepApproval}
                             />
                         ))}
                         <div ref={messagesEndRef} />
@@ -145,6 +145,12 @@ export const StopIcon: React.FC<{ className?: string }> = ({ className = "w-4 h-
     </svg>
 );
 
+export const LockIcon: React.FC<{ className?: string }> = ({ className = "w-4 h-4" }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="currentColor">
+        <path fillRule="evenodd" d="M12 1.5a5.25 5.25 0 00-5.25 5.25v3a3 3 0 00-3 3v6.75a3 3 0 003 3h10.5a3 3 0 003-3v-6.75a3 3 0 00-3-3v-3c0-2.9-2.35-5.25-5.25-5.25zm3.75 8.25v-3a3.75 3.75 0 10-7.5 0v3h7.5z" clipRule="evenodd" />
+    </svg>
+);
+
 export const ChatBubbleLeftRightIcon: React.FC<{ className?: string }> = ({ className = "w-6 h-6" }) => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={className}>
         <path strokeLinecap="round" strokeLinejoin="round" d="M20.25 8.511c.884.284 1.5 1.128 1.5 2.097v4.286c0 1.136-.847 2.1-1.98 2.193l-3.72.111c-.443.03.792.87.53 1.295l-2.086.99c-.366.174-.844-.058-1.146-.417l-1.538-1.39c-.375-.34-.942-.34-1.317 0l-1.538 1.39c-.302.36-.78.592-1.146.417l-2.086-.99c-.262-.425.973-1.265.53-1.295L3.48 17.09c-1.133-.093-1.98-1.057-1.98-2.193v-4.286c0-.97.616-1.813 1.5-2.097m16.5 0a2.25 2.25 0 00-2.25-2.25h-12a2.25 2.25 0 00-2.25 2.25m16.5 0v-5.511c0-.274-.224-.499-.5-.499H3.75c-.276 0-.5.225-.5.5v5.511m16.5 0z" />
@@ -1,5 +1,5 @@
 
-import { TaskType, Persona } from './types';
+import { TaskType, Persona, RunBudget, StepRetryPolicy, ProviderSettings, ModelPrice, PipelineDefinition, RoundTablePersona, RoundTableSettings, SchedulerSettings } from './types';
 import {
     ROUTER_TOOL,
     SOURCE_EVALUATOR_TOOL,
@@ -10,18 +10,19 @@ import {
     CREATE_SOTA_METAPROMPT_TOOL,
     AUTONOMOUS_RAG_TOOL, // MANDATE 2.2
     SUPERVISOR_ROUTER_TOOL,
-} from './ui/hooks/toolDefinitions';
+} from './engine/toolDefinitions';
 import { Type, FunctionDeclaration } from '@google/genai'; // Import FunctionDeclaration
 
 // FIX: Export SUPERVISOR_ROUTER_TOOL
-export { ROUTER_TOOL, SUPERVISOR_ROUTER_TOOL };
+export { ROUTER_TOOL, SUPERVISOR_ROUTER_TOOL, APO_REFINE_TOOL };
 
 export const APP_TITLE = "Agentura AI";
 export const APP_VERSION = "5.0.0"; // Gemini 3 Upgrade
 
 // --- SOTA IMPROVEMENT (OPPORTUNITY 2): Define tools for structured output ---
 
-const PLAN_SCHEMA = {
+// `agents` is what tool_to_use may name; runs narrow it to the active roster (see createPlanTool)
+const createPlanSchema = (agents: readonly string[]) => ({
   type: Type.OBJECT,
   properties: {
     plan: {
@@ -32,24 +33,39 @@ const PLAN_SCHEMA = {
         properties: {
           step_id: { type: Type.NUMBER },
           description: { type: Type.STRING },
-          tool_to_use: { type: Type.STRING, enum: Object.values(TaskType) },
+          tool_to_use: { type: Type.STRING, enum: [...agents] },
           acceptance_criteria: { type: Type.STRING },
           dependencies: { type: Type.ARRAY, description: "Array of step_ids this step depends on. Use an empty array [] for steps that can run immediately.", items: { type: Type.NUMBER } },
-          inputs: { type: Type.ARRAY, items: { type: Type.STRING } },
-          output_key: { type: Type.STRING },
+          inputs: { type: Type.ARRAY, description: "Blackboard keys this step reads. Use the output_key of an upstream step (or 'step_<id>' if it has none). Every key should belong to a step listed in dependencies.", items: { type: Type.STRING } },
+          output_key: { type: Type.STRING, description: "A unique, snake_case key under which this step's result is published for downstream steps." },
+          requires_approval: { type: Type.BOOLEAN, description: "Set to true if a human must approve this step before it runs (e.g. Code steps that execute Python, Creative steps that call veo_tool)." },
+          kind: { type: Type.STRING, enum: ['agent', 'subplan', 'map'], description: "'subplan' for a large step that should be expanded into its own sub-plan when it is reached; its tool_to_use must be 'Planner'. 'map' to run tool_to_use once per item of the list named by map_over. Defaults to 'agent'." },
+          map_over: { type: Type.STRING, description: "For 'map' steps: the output_key (or 'step_<id>') of an upstream step, listed in dependencies, whose result is a list (a JSON array or one item per line). Write {item} in the description where each item goes." },
+          condition: {
+            type: Type.OBJECT,
+            description: "Optional. The step runs only if this predicate on an upstream result holds; otherwise it is skipped (its dependents still run).",
+            properties: {
+              step_id: { type: Type.NUMBER, description: "The upstream step whose result is tested. Must be listed in dependencies." },
+              operator: { type: Type.STRING, enum: ['contains', 'not_contains', 'greater_than', 'less_than', 'is_yes', 'is_no'], description: "contains/not_contains test for a keyword (case-insensitive); greater_than/less_than compare the first number in the result; is_yes/is_no test whether the result starts with yes or no." },
+              value: { type: Type.STRING, description: "The keyword or the numeric threshold. Not used by is_yes/is_no." },
+            },
+            required: ['step_id', 'operator'],
+          },
         },
         required: ['step_id', 'description', 'tool_to_use', 'acceptance_criteria', 'dependencies'],
       },
     },
   },
   required: ['plan'],
-};
+});
 
-export const PLAN_TOOL: FunctionDeclaration = {
+export const createPlanTool = (agents: readonly string[]): FunctionDeclaration => ({
     name: 'submit_plan',
     description: 'Submit the final, selected, optimal JSON plan.',
-    parameters: PLAN_SCHEMA,
-};
+    parameters: createPlanSchema(agents),
+});
+
+export const PLAN_TOOL: FunctionDeclaration = createPlanTool(Object.values(TaskType));
 
 const CRITIQUE_SCHEMA = {
   type: Type.OBJECT,
@@ -195,9 +211,10 @@ PROCEDURE:
 {graph_state_json}
 `;
 
-// Defines all available specialist agents in the system
+// Defines all available specialist agents in the system. Each names the provider and model it runs on.
 export const AGENT_ROSTER: Record<TaskType, any> = {
   [TaskType.Supervisor]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash', // Fast orchestration
     title: 'Supervisor',
     description: 'Internal agent. Manages the graph state.',
@@ -207,6 +224,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     systemInstruction: SUPERVISOR_SYSTEM_INSTRUCTION,
   },
   [TaskType.Planner]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE
     title: 'Planner Agent (DAG)',
     description: 'Decomposes complex goals into a Directed Acyclic Graph (DAG) of steps.',
@@ -236,13 +254,19 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
         - For each step, define its \`dependencies\` as an array of \`step_id\`s.
         - An empty \`dependencies: []\` array means the step can run immediately.
         - \`dependencies: [1, 2]\` means the step can only run after steps 1 and 2 are complete.
+        - Set \`requires_approval: true\` on steps with side effects the user should sign off on first, such as Code steps that execute Python or Creative steps that generate video with \`veo_tool\`.
+        - Give each step a unique \`output_key\`. A step only sees upstream results it lists in \`inputs\`, so list the \`output_key\` of every dependency whose result it needs.
         - Create parallel workstreams where possible.
+        - For branching, give a step a \`condition\` on an upstream result (e.g. only run a fix-up step if a check step's result \`is_no\`). Have the upstream step answer with a leading "Yes"/"No" or a number when you plan to test it.
+        - To repeat work over a list produced upstream (e.g. "research each vendor"), use one step with \`kind: 'map'\` and \`map_over\` set to that list's key; it runs once per item and its result joins all item results.
+        - If the goal is large, keep the plan readable by grouping a self-contained phase into one step with \`kind: 'subplan'\` and \`tool_to_use: 'Planner'\`. It is expanded into its own sub-plan when reached, and a failure inside it only re-plans that phase. Sub-plans cannot contain further sub-plan steps.
     5.  [PLAN - ToT]: Internally generate 2-3 competing graph strategies.
     6.  [CRITIQUE - PWC]: Internally critique all plans for efficiency and correctness.
     7.  [SELECT]: Select the single best plan.
     8.  [OUTPUT]: Your final output MUST be to call the \`submit_plan\` tool with the selected, optimal plan.`
   },
   [TaskType.Research]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE
     title: 'Research Agent (Agentic RAG)',
     description: 'Performs high-quality, domain-adaptive, multi-step research.',
@@ -263,6 +287,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     5.  **Synthesize:** Combine all findings into a final answer.`
   },
   [TaskType.Code]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE
     title: 'Code Agent (Native Execution)',
     description: 'Generates and executes Python code using the native GAIS sandbox.',
@@ -288,6 +313,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     4.  **Act (Retry):** You MUST call the \`code_interpreter\` tool with the *new* corrected code.`
   },
    [TaskType.Critique]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash', // Fast critique is usually sufficient
     title: 'Critic Agent',
     description: 'Provides harsh, fair, actionable critiques of agent outputs.',
@@ -305,6 +331,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     CONSTRAINTS: Your output MUST be to call the \`submit_critique\` tool.`
   },
   [TaskType.Chat]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash',
     title: 'Synthesizer Agent',
     description: 'A general-purpose agent for simple chat or synthesizing final answers.',
@@ -317,6 +344,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     systemInstruction: `You are a helpful and concise synthesizer agent. Your job is to take the [CONTEXT] from other agents (like RAG results) and formulate a final, clean answer for the user.`
   },
    [TaskType.Complex]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE
     title: 'Complex Reasoning Agent',
     description: 'Triggers an autonomous PWC/Reflexion loop for deep analysis.',
@@ -336,6 +364,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
           3. You will then receive the critique and MUST generate a 'v2' final answer that incorporates the feedback.`
   },
   [TaskType.Vision]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash-image', // Nano Banana for speed/general tasks
     title: 'Vision Agent',
     description: 'Analyzes and answers questions about images.',
@@ -348,6 +377,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     systemInstruction: "You are a 'Vision' agent. Your expertise is in analyzing images and providing detailed descriptions or answering specific questions about them."
   },
   [TaskType.Creative]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE for better creative writing
     title: 'Creative Agent',
     description: 'Orchestrates multimodal generation for creative tasks.',
@@ -362,6 +392,7 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     systemInstruction: "You are a 'Creative' agent. You can write stories, scripts, or generate media by calling your 'veo_tool' or 'musicfx_tool'."
   },
   [TaskType.Retry]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE for better error correction
     title: 'Self-Correction Agent',
     description: 'Retries a failed task based on a critique.',
@@ -372,14 +403,15 @@ export const AGENT_ROSTER: Record<TaskType, any> = {
     tools: [{ functionDeclarations: [APO_REFINE_TOOL] }],
     config: {},
     systemInstruction: `IDENTITY: You are a 'Reflexion' meta-agent. Your *only* job is to orchestrate a fix for a failed plan step.
-OBJECTIVE: Call the \`apo_refine_tool\` to generate a new, corrected prompt for the Planner.
+OBJECTIVE: Call the \`apo_refine\` tool to generate a new, corrected description for the failed plan step.
 PROCEDURE:
 1. You will receive a structured prompt: "[Prompt]: ... [Failed Output]: ... [Critique]: ...".
-2. You MUST immediately call the \`apo_refine_tool\` with these three pieces of information.
-3. The tool will return an object: \`{ newPrompt: 'A new, corrected goal for the planner.' }\`.
+2. You MUST immediately call the \`apo_refine\` tool with these three pieces of information.
+3. The tool will return an object: \`{ newPrompt: 'A new, corrected step description.' }\`.
 4. Your final and only output MUST be the text from \`newPrompt\`.`
   },
   [TaskType.ManualRAG]: {
+      provider: 'gemini',
       model: 'gemini-2.5-flash', // Fast retrieval is key here
       title: 'Local RAG Agent',
       description: 'Answers questions using the local document archive.',
@@ -397,6 +429,7 @@ PROCEDURE:
     3. You MUST cite your sources using the [Source: ...] tag provided in the context.`
   },
   [TaskType.Meta]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE
     title: 'Meta-Agent (APO)',
     description: 'Optimizes and creates new agent instructions.',
@@ -416,6 +449,7 @@ PROCEDURE:
     3.  **Refine (Textual Gradients):** If refining, you will be given an [Original Prompt] and a [Critique]. Generate a 'Textual Gradient' and a {New_Prompt} that fixes the flaw.`
   },
   [TaskType.DataAnalyst]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview', // GEMINI 3 UPGRADE for better data parsing
     title: 'Data Analyst Agent',
     description: 'Analyzes data and generates visualizations.',
@@ -435,6 +469,7 @@ PROCEDURE:
     5. Your output MUST be to call the \`submit_visualization_spec\` tool.`
   },
   [TaskType.Embedder]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash',
     title: 'Embedder Agent',
     description: 'Generates embeddings for documents for RAG.',
@@ -447,6 +482,7 @@ PROCEDURE:
     systemInstruction: `IDENTITY: You are an embedder agent. You are not user-facing. Your job is to create vector embeddings.`
   },
   [TaskType.Reranker]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash',
     title: 'Reranker Agent',
     description: 'A "worker" agent that reranks retrieved documents for relevance.',
@@ -460,19 +496,26 @@ PROCEDURE:
     OBJECTIVE: You will be given a [User Query] and a list of [Retrieved Chunks]. Your *only* job is to score each chunk for its relevance to the query and call the \`submit_reranked_chunks\` tool.`
   },
   [TaskType.Verifier]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash',
     title: 'Verifier Agent',
-    description: 'An internal agent that validates plan steps *before* execution.',
-    concise_description: '(Internal) Validates plan steps.',
-    strengths: 'Fast, low-cost. Acts as a proactive safety gate (PVE).',
+    description: 'An internal agent that checks each completed plan step result against its acceptance criteria.',
+    concise_description: '(Internal) Verifies plan step results.',
+    strengths: 'Fast, low-cost. Acts as a quality gate after every parallel wave.',
     weaknesses: 'Not user-facing.',
     example_prompt: 'This agent is not user-facing.',
     tools: [{ functionDeclarations: [VERIFIER_TOOL] }],
     config: {},
     systemInstruction: `IDENTITY: You are a 'Verifier' agent (v5.0). You are a non-creative, deterministic batch auditor.
-    OBJECTIVE: You will receive a JSON object containing an array of 'PlanSteps'. Your *only* job is to validate *each* step against a list of rules and call the \`submit_verification_results\` tool.`
+    OBJECTIVE: You will receive a JSON object containing an array of completed 'PlanSteps', each with its \`description\`, \`acceptance_criteria\` and \`result\`. Your *only* job is to judge *each* result against its acceptance criteria and call the \`submit_verification_results\` tool.
+    RULES:
+    - Return exactly one entry per step_id you received.
+    - \`PASS\` only if the result satisfies every acceptance criterion. Otherwise \`FAIL\`.
+    - \`reason\` must name the unmet criterion on FAIL (one sentence), or briefly confirm on PASS.
+    - Judge only what is in the result. Do not reward intent, promises or placeholders.`
   },
   [TaskType.Maintenance]: {
+    provider: 'gemini',
     model: 'gemini-3-pro-preview',
     title: 'Maintenance Agent',
     description: 'Performs app-wide debugging, finds syntax errors, and cleans up unused files.',
@@ -496,6 +539,7 @@ PROCEDURE:
     4.  Provide a clear, concise report of your findings in markdown format.`
   },
   [TaskType.Router]: {
+    provider: 'gemini',
     model: 'gemini-2.5-flash',
     title: 'Router',
     description: 'Internal agent. Routes tasks.',
@@ -506,17 +550,21 @@ PROCEDURE:
   }
 };
 
-export const SOTA_SECURITY_PIPELINE = {
+// The fixed roster of the Security Service swarm
+export const SECURITY_SERVICE_ROSTER: TaskType[] = [TaskType.Planner, TaskType.Research, TaskType.Code, TaskType.Critique];
+
+export const SOTA_SECURITY_PIPELINE: PipelineDefinition = {
   id: 'sota_general_v1',
   title: 'Security Service (SOTA Swarm)',
   description: 'A pre-defined, high-reliability swarm for general-purpose, complex tasks.',
+  roster: SECURITY_SERVICE_ROSTER,
   steps: [
     { 
       agent: TaskType.Planner, 
       task: 'User goal is: "{{user_prompt}}". Your available agents are [Research, Code, Critique]. Create a comprehensive, step-by-step plan to achieve this goal.' 
     },
     { 
-      agent: 'Supervisor', // This is a meta-agent, not a TaskType
+      agent: TaskType.Supervisor, // Supervisor steps run a built-in operation (see PipelineSupervisorTask)
       task: 'execute_plan' 
     },
     { 
@@ -524,12 +572,83 @@ export const SOTA_SECURITY_PIPELINE = {
       task: 'Here is the final, synthesized output for the user: "{{final_output}}". Review it for quality, coherence, and faithfulness to the original goal: "{{user_prompt}}".'
     },
     {
-      agent: 'Supervisor',
+      agent: TaskType.Supervisor,
       task: 'generate_supervisor_report'
     }
   ]
 };
 
+// Internal agents are hidden from the roster UI and can never be the tool of a plan step.
+export const INTERNAL_AGENTS: TaskType[] = [
+  TaskType.Reranker,
+  TaskType.Embedder,
+  TaskType.Verifier,
+  TaskType.Retry,
+  TaskType.Supervisor,
+  TaskType.Router,
+];
+
+// Agents a plan step may execute. The Planner is excluded: a step that only produces another plan does no work
+// (sub-plan steps name the Planner, but are expanded by the graph rather than executed).
+export const PLAN_STEP_AGENTS: TaskType[] = Object.values(TaskType).filter(t => !INTERNAL_AGENTS.includes(t) && t !== TaskType.Planner);
+
+// How many times the Planner is sent its own validation errors before the plan is rejected outright.
+export const MAX_PLAN_REPAIR_ROUNDS = 2;
+
+// How many times a sub-plan is re-planned after one of its steps fails before the sub-plan step itself fails.
+export const MAX_SUBPLAN_REPLANS = 2;
+
+// Upper bound on how many items a 'map' step fans out over; longer lists are truncated.
+export const MAX_MAP_ITEMS = 20;
+
+// Queries the Router scores at or below this complexity (1-10) skip the graph and go straight to the routed agent.
+export const DEFAULT_ROUTER_COMPLEXITY_THRESHOLD = 4;
+
+export const DEFAULT_RUN_BUDGET: RunBudget = {
+  maxIterations: 25,
+  maxReplans: 3,
+  maxTotalTokens: 1_000_000,
+  maxWallClockMs: 10 * 60 * 1000,
+};
+
+// A critique passes when every score is at least this (scores are 1-5).
+export const CRITIQUE_PASS_SCORE = 4;
+
+export const STEP_RETRY_POLICY: StepRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  maxConcurrencyPerModel: 3,
+  requestsPerMinute: 30,
+  stepTimeoutMs: 3 * 60 * 1000,
+};
+
+// How long a model is paused after a 429 that does not say when to retry
+export const RATE_LIMIT_COOLDOWN_MS = 20 * 1000;
+
+// Roster entries default to Gemini; the override points every agent at one provider, e.g. a local Ollama server.
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  override: null,
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    model: 'llama3.1',
+  },
+};
+
+// List prices in USD per million tokens, used to cost usage records. Overrides set in the
+// Usage tab are stored per browser; models missing from the table are reported as unpriced.
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30.00 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+  'gemini-3-pro-preview': { inputPerMillion: 2.00, outputPerMillion: 12.00 },
+  'llama3.1': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
 export const PERSONA_CONFIGS: Record<Persona, { instruction: string }> = {
   [Persona.Default]: {
     instruction: '',
@@ -541,3 +660,45 @@ export const PERSONA_CONFIGS: Record<Persona, { instruction: string }> = {
     instruction: 'You are a very concise assistant. Your responses should be direct, to-the-point, and as short as possible while still being accurate. Use bullet points.',
   },
 };
+
+// --- The Round Table ---
+
+// Debaters in seating order; a debate with N participants seats the first N
+export const ROUND_TABLE_PERSONAS: RoundTablePersona[] = [
+  {
+    name: 'The Visionary',
+    agent: TaskType.Creative,
+    instruction: 'You are The Visionary at a round-table debate. You argue for bold, original ideas and the most ambitious reading of the topic. Defend novelty, but concede points that are clearly better argued.',
+  },
+  {
+    name: 'The Skeptic',
+    agent: TaskType.Critique,
+    instruction: 'You are The Skeptic at a round-table debate. You look for weak assumptions, risks and missing evidence. Be specific about what is wrong and what would fix it. Answer in prose; do not call any tools.',
+  },
+  {
+    name: 'The Scholar',
+    agent: TaskType.Research,
+    instruction: 'You are The Scholar at a round-table debate. You ground the discussion in facts, precedent and established practice, and point out where other answers contradict them.',
+  },
+  {
+    name: 'The Pragmatist',
+    agent: TaskType.Code,
+    instruction: 'You are The Pragmatist at a round-table debate. You care about what can actually be built or done with realistic effort, and turn ideas into concrete, workable steps.',
+  },
+  {
+    name: 'The Strategist',
+    agent: TaskType.Complex,
+    instruction: 'You are The Strategist at a round-table debate. You weigh long-term consequences and trade-offs, and look for the answer that holds up best overall.',
+  },
+];
+
+export const DEFAULT_ROUND_TABLE_SETTINGS: RoundTableSettings = { participants: 3, rounds: 2 };
+export const MAX_ROUND_TABLE_ROUNDS = 4;
+
+export const ROUND_TABLE_MODERATOR_INSTRUCTION = `IDENTITY: You are the Moderator of a round-table debate.
+OBJECTIVE: Synthesize the debate into the single best final answer for the user.
+PROCEDURE:
+1. Read every participant's latest position and the critiques they exchanged.
+2. Keep the ideas that survived critique, resolve disagreements explicitly, and drop points that were refuted.
+3. Write the final answer to the topic directly, in Markdown. Do not summarize the debate turn by turn.
+CONSTRAINTS: Answer in prose; do not call any tools.`;
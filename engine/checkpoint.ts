@@ -0,0 +1,9 @@
+import { GraphState } from '../types';
+
+// A running graph's state, saved every Supervisor iteration so a run interrupted by a reload can resume
+export interface GraphCheckpoint {
+    id: string; // Primary key: the assistant message hosting the run
+    state: GraphState;
+    iteration: number; // Supervisor iterations completed when the checkpoint was taken
+    updatedAt: number;
+}
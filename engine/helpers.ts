@@ -1,6 +1,6 @@
 
 import { GenerateContentResponse, Part } from "@google/genai";
-import { FileData, GroundingSource } from "../../types";
+import { CritiqueScores, FileData, GroundingSource } from "../types";
 
 export const fileToGenerativePart = (file: FileData): Part => ({
   inlineData: { data: file.content, mimeType: file.type },
@@ -27,18 +27,43 @@ export const extractSources = (chunk: GenerateContentResponse): GroundingSource[
     .map(web => ({ uri: web.uri, title: web.title || '' }));
 };
 
+export const isCritiquePassing = (scores: CritiqueScores | undefined, passScore: number): boolean =>
+  !!scores && Math.min(scores.faithfulness, scores.coherence, scores.coverage) >= passScore;
+
+export const createAbortError = (): Error => new DOMException('Run cancelled by user.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => (error as Error)?.name === 'AbortError';
+
+// Resolves after `ms`, or rejects with an abort error as soon as the signal fires.
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
 export async function withRetry<T>(
   fn: () => Promise<T>,
   retries = 3,
   delay = 1000,
-  backoff = 2
+  backoff = 2,
+  onRetry?: (error: unknown) => void
 ): Promise<T> {
   try {
     return await fn();
   } catch (error) {
-    if (retries <= 0) throw error;
+    // A cancelled request must surface immediately, not after the backoff schedule
+    if (retries <= 0 || isAbortError(error)) throw error;
+    onRetry?.(error);
     await new Promise((resolve) => setTimeout(resolve, delay));
-    return withRetry(fn, retries - 1, delay * backoff, backoff);
+    return withRetry(fn, retries - 1, delay * backoff, backoff, onRetry);
   }
 }
 
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { EngineEvent, GraphState, Persona, ReflexionEntry, TaskType } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, DEFAULT_ROUND_TABLE_SETTINGS, DEFAULT_ROUTER_COMPLEXITY_THRESHOLD, DEFAULT_RUN_BUDGET, DEFAULT_SCHEDULER_SETTINGS } from '../constants';
+import { GraphCheckpoint } from './checkpoint';
+import { createOrchestrator, EngineSettings } from './orchestrator';
+import { createCassette, createRecordingClient, createReplayClient, parseCassette } from './providers/cassette';
+import { AiClient } from './providers/aiClient';
+import { createScriptedClient, ScriptedTurn } from './providers/scripted';
+import { createBudgetUsage } from './runBudget';
+
+const ROSTER = [TaskType.Planner, TaskType.Research, TaskType.Creative];
+
+// A headless host: settings are fixed, storage is kept in memory and every agent answers from the script
+const createTestHost = (client: AiClient, overrides: Partial<EngineSettings> = {}) => {
+    const checkpoints = new Map<string, GraphCheckpoint>();
+    const lessons: Omit<ReflexionEntry, 'id' | 'promptEmbedding'>[] = [];
+    const settings: EngineSettings = {
+        persona: Persona.Default,
+        sessionFeedback: {},
+        activeRoster: ROSTER,
+        providerSettings: { ...DEFAULT_PROVIDER_SETTINGS, override: 'scripted' },
+        supervisorMode: 'rules',
+        reviewPlans: false,
+        schedulerSettings: DEFAULT_SCHEDULER_SETTINGS,
+        routerComplexityThreshold: DEFAULT_ROUTER_COMPLEXITY_THRESHOLD,
+        roundTableSettings: DEFAULT_ROUND_TABLE_SETTINGS,
+        ...overrides,
+    };
+    return {
+        checkpoints,
+        lessons,
+        host: {
+            getSettings: () => settings,
+            getClient: () => client,
+            getConversation: () => [],
+            saveCheckpoint: async (checkpoint: GraphCheckpoint) => { checkpoints.set(checkpoint.id, checkpoint); },
+            deleteCheckpoint: async (runId: string) => { checkpoints.delete(runId); },
+            findLessons: async () => [],
+            saveLesson: async (lesson: Omit<ReflexionEntry, 'id' | 'promptEmbedding'>) => { lessons.push(lesson); },
+        },
+    };
+};
+
+const TWO_STEP_PLAN: ScriptedTurn = {
+    match: 'submit_plan',
+    functionCalls: [{ name: 'submit_plan', args: { plan: [
+        { step_id: 1, description: 'Collect the facts.', tool_to_use: TaskType.Research, acceptance_criteria: 'Facts listed.', dependencies: [] },
+        { step_id: 2, description: 'Write the report.', tool_to_use: TaskType.Creative, acceptance_criteria: 'A report.', dependencies: [1] },
+    ] } }],
+};
+
+const freshState = (roster: TaskType[] = ROSTER): GraphState => ({
+    id: 'msg-1', originalPrompt: 'Write a report on tides.', plan: null, history: [], lastOutput: null, nextAgent: TaskType.Planner,
+    error: null, blackboard: {}, budget: { ...DEFAULT_RUN_BUDGET }, budgetUsage: createBudgetUsage(), roster,
+});
+
+describe('createOrchestrator', () => {
+    it('plans, runs each step and finishes, reporting each stage as an event', async () => {
+        const { host, checkpoints } = createTestHost(createScriptedClient([TWO_STEP_PLAN]));
+        const engine = createOrchestrator(host);
+        const events: EngineEvent[] = [];
+        engine.subscribe(event => events.push(event));
+
+        const state = freshState();
+        await engine.runGraph(state);
+
+        const stages = events.map(e => e.type).filter(type => ['plan_created', 'step_status', 'run_finished'].includes(type));
+        expect(stages[0]).toBe('plan_created');
+        expect(stages.at(-1)).toBe('run_finished');
+        expect(stages.slice(1, -1).every(type => type === 'step_status')).toBe(true);
+
+        const statuses = events.flatMap(e => e.type === 'step_status' ? [`${e.stepId}:${e.status}`] : []);
+        expect(statuses.indexOf('1:completed')).toBeGreaterThan(statuses.indexOf('1:in-progress'));
+        expect(statuses.indexOf('2:in-progress')).toBeGreaterThan(statuses.indexOf('1:completed'));
+        expect(statuses).toContain('2:completed');
+
+        expect(state.error).toBeNull();
+        expect(state.plan?.plan.map(s => s.status)).toEqual(['completed', 'completed']);
+        expect(checkpoints.size).toBe(0);
+        expect(engine.activeRunCount()).toBe(0);
+    });
+
+    it('writes the final answer back to the run\'s message', async () => {
+        const { host } = createTestHost(createScriptedClient([TWO_STEP_PLAN, { match: 'Write the report.', text: 'Tides follow the moon.' }]));
+        const engine = createOrchestrator(host);
+        const updates: EngineEvent[] = [];
+        engine.subscribe(event => event.type === 'message_update' && updates.push(event));
+
+        await engine.runGraphForMessage(freshState());
+
+        expect(updates[0]).toMatchObject({ messageId: 'msg-1', update: { content: 'Tides follow the moon.', isLoading: false } });
+    });
+
+    it('stops after the first plan when plans are reviewed, leaving it for the user to run', async () => {
+        const { host } = createTestHost(createScriptedClient([TWO_STEP_PLAN]), { reviewPlans: true });
+        const engine = createOrchestrator(host);
+        const events: EngineEvent[] = [];
+        engine.subscribe(event => events.push(event));
+
+        const state = freshState();
+        await engine.runGraphForMessage(state);
+
+        expect(state.awaitingReview).toBe(true);
+        expect(state.plan?.plan.map(s => s.status)).toEqual(['pending', 'pending']);
+        expect(events.map(e => e.type)).not.toContain('step_status');
+        expect(events).toContainEqual(expect.objectContaining({ type: 'message_update', update: expect.objectContaining({ isLoading: false }) }));
+        expect(engine.isRunActive(state.id)).toBe(false);
+    });
+
+    it('re-plans as soon as the user rejects a step, without running the rest of the plan', async () => {
+        const gatedPlan: ScriptedTurn = {
+            match: 'submit_plan',
+            functionCalls: [{ name: 'submit_plan', args: { plan: [
+                { step_id: 1, description: 'Email the supplier.', tool_to_use: TaskType.Creative, acceptance_criteria: '', dependencies: [], requires_approval: true },
+                { step_id: 2, description: 'Collect the facts.', tool_to_use: TaskType.Research, acceptance_criteria: '', dependencies: [] },
+                { step_id: 3, description: 'Write the report.', tool_to_use: TaskType.Creative, acceptance_criteria: '', dependencies: [2] },
+            ] } }],
+        };
+        const { host } = createTestHost(createScriptedClient([gatedPlan, TWO_STEP_PLAN]));
+        const engine = createOrchestrator(host);
+        const events: EngineEvent[] = [];
+        engine.subscribe(event => {
+            events.push(event);
+            if (event.type === 'step_status' && event.status === 'awaiting-approval') {
+                const { planId, stepId } = event;
+                setTimeout(() => engine.resolveApproval(planId, stepId, { action: 'reject', reason: 'Not yet.' }));
+            }
+        });
+
+        await engine.runGraph(freshState());
+
+        const plans = events.flatMap(e => e.type === 'plan_created' ? [e] : []);
+        expect(plans).toHaveLength(2);
+        expect(plans[1].trigger).toBe('Rejected by user: step 1 (Not yet.)');
+        const beforeReplan = events.slice(0, events.indexOf(plans[1]));
+        expect(beforeReplan).not.toContainEqual(expect.objectContaining({ type: 'step_status', stepId: 3 }));
+    });
+});
+
+describe('cassette replay', () => {
+    // What a run did, without the timings that differ between runs
+    const runOnce = async (client: AiClient) => {
+        const engine = createOrchestrator(createTestHost(client).host);
+        const events: unknown[] = [];
+        engine.subscribe(event => {
+            if (event.type === 'plan_created') events.push([event.type, event.plan.plan.map(s => s.description)]);
+            if (event.type === 'step_status') events.push([event.type, event.stepId, event.status, event.result]);
+            if (event.type === 'supervisor_decision') events.push([event.type, event.decision.agent]);
+            if (event.type === 'run_finished') events.push([event.type]);
+        });
+        const state = freshState();
+        const output = await engine.runGraph(state);
+        return { events, output, blackboard: state.blackboard };
+    };
+
+    it('replays a recorded run exactly, without the provider that recorded it', async () => {
+        const cassette = createCassette();
+        const recorded = await runOnce(createRecordingClient(createScriptedClient([TWO_STEP_PLAN]), cassette));
+        expect(cassette.entries.length).toBeGreaterThan(0);
+
+        // As if saved to a file and loaded in another session
+        const saved = JSON.stringify(cassette);
+        const first = await runOnce(createReplayClient(parseCassette(saved)));
+        const second = await runOnce(createReplayClient(parseCassette(saved)));
+
+        expect(first).toEqual(recorded);
+        expect(second).toEqual(first);
+    });
+});
@@ -0,0 +1,1310 @@
+import { Part, GenerateContentResponse, Type } from '@google/genai';
+
+import { TaskType, ChatMessage, FileData, Plan, PlanStep, GraphState, GraphRuntime, GraphNode, GroundingSource, FunctionCall, VizSpec, ReflexionEntry, TokenUsage, PlanValidationError, ApprovalDecision, StepVerification, StepAttempt, ExecutionTrace, TraceSpan, ModelProviderId, ProviderSettings, UsageRecord, Persona, SupervisorMode, SupervisorDecision, SchedulerSettings, StepQueueState, EngineEvent, RoutingDecision, RoundTableSettings, RoundTablePersona, DebateTranscript, DebateRound } from '../types';
+import { AGENT_ROSTER, PERSONA_CONFIGS, ROUTER_SYSTEM_INSTRUCTION, SUPERVISOR_SYSTEM_INSTRUCTION, SUPERVISOR_ROUTER_TOOL, CRITIQUE_TOOL, VERIFIER_TOOL, APO_REFINE_TOOL, MAX_PLAN_REPAIR_ROUNDS, MAX_SUBPLAN_REPLANS, MAX_MAP_ITEMS, STEP_RETRY_POLICY, CRITIQUE_PASS_SCORE, DEFAULT_RUN_BUDGET, ROUND_TABLE_MODERATOR_INSTRUCTION } from '../constants';
+import { fileToGenerativePart, extractSources, withRetry, createAbortError, isAbortError, abortableDelay, isCritiquePassing } from './helpers';
+import { toTokenUsage, createBudgetUsage, addTokenUsage, getBudgetViolation, isReplanAllowed, formatBudgetStatus } from './runBudget';
+import { AiClient, AiChat, resolveAgentModel } from './providers';
+import { createTrace, startSpan, endSpan, endOpenSpans, usageAttributes, snapshotTrace, hashText } from './tracing';
+import { getEnabledAgents, isAgentEnabled, getPlanAgents, getRoutableAgents, getSupervisorNodes, getRosterTools, createRosteredRouterTool, describeRoster } from './roster';
+import { decideNextNode } from './supervisor';
+import { getPipeline, getPipelineTask, isSupervisorTask, buildSupervisorReport } from './pipeline';
+import { publishStepOutput, resolveStepInputs, collectPlanOutput, clonePlan, validatePlan, formatValidationErrors, getStepOutputKey, isSubplanStep, flattenPlanSteps, findPlanStep, collectRunnableSteps, scopeSubplanSteps, isStepSettled, isMapStep, getConditionSkipReason, parseListItems, expandMapStep, getCriticalPathLength } from './planUtils';
+import { createStepScheduler, createAttemptController, isRateLimitError, getRetryAfterMs } from './stepScheduler';
+import { clampRoundTableSettings, createDebateTranscript, buildProposalPrompt, buildCritiquePrompt, buildModeratorPrompt } from './roundTable';
+import { GraphCheckpoint } from './checkpoint';
+
+// The orchestration engine: routing, agent calls, the Supervisor graph and the Round Table, with no dependency on React or the browser.
+// It reports progress as EngineEvents; whoever hosts it (the app's store, a Node script, an API) subscribes to them.
+
+export const RUN_CANCELLED_ERROR = 'Cancelled by user.';
+export const BUDGET_EXHAUSTED_ERROR = 'Budget exhausted';
+
+// Read on every call, so changes apply to runs already in flight
+export interface EngineSettings {
+    persona: Persona;
+    sessionFeedback: Record<string, string[]>;
+    activeRoster: TaskType[];
+    providerSettings: ProviderSettings;
+    supervisorMode: SupervisorMode;
+    reviewPlans: boolean; // Stop after the first plan of a run, so the user can edit it before anything executes
+    schedulerSettings: SchedulerSettings;
+    routerComplexityThreshold: number;
+    roundTableSettings: RoundTableSettings;
+}
+
+// What the engine needs from its host. The browser backs storage with IndexedDB and the embedding service;
+// a headless host can keep it in memory.
+export interface EngineHost {
+    getSettings: () => EngineSettings;
+    getClient: (provider: ModelProviderId) => AiClient;
+    getConversation: () => ChatMessage[]; // The chat history agents are given
+    saveCheckpoint: (checkpoint: GraphCheckpoint) => Promise<void>;
+    deleteCheckpoint: (runId: string) => Promise<void>;
+    findLessons: (prompt: string, limit: number) => Promise<ReflexionEntry[]>; // Reflexion entries relevant to a goal
+    saveLesson: (lesson: Omit<ReflexionEntry, 'id' | 'promptEmbedding'>) => Promise<void>;
+}
+
+export interface AgentCallOptions {
+    task?: TaskType; // Chosen by the Router when unset
+    file?: FileData;
+    runtime?: GraphRuntime; // Set for calls made by a running graph
+    parentSpanId?: string;
+    messageId?: string; // Outside a run: the message the answer streams into
+    trace?: ExecutionTrace; // Outside a run: the trace to record the call in
+    onChunk?: (streamedText: string) => void;
+}
+
+export interface AnswerOptions {
+    forcedTask?: TaskType; // An agent the user asked for by command
+    routing?: RoutingDecision; // A decision already made, e.g. the user overriding the Router; skips the Router
+}
+
+export interface Orchestrator {
+    subscribe: (listener: (event: EngineEvent) => void) => () => void;
+    // Runs the graph until the Supervisor finishes it, and returns the run's final output
+    runGraph: (state: GraphState, trace?: ExecutionTrace) => Promise<any>;
+    callAgent: (prompt: string, options?: AgentCallOptions) => Promise<ChatMessage>;
+    // The commands below answer into an assistant message the host has already added, and never throw:
+    // the outcome, failures included, arrives as message_update events
+    answer: (userMsg: ChatMessage, messageId: string, options?: AnswerOptions) => Promise<void>;
+    runGraphForMessage: (state: GraphState, trace?: ExecutionTrace) => Promise<void>; // `state.id` is the message
+    runRoundTable: (topic: string, messageId: string) => Promise<void>;
+    continueCodeAgent: (messageId: string) => Promise<void>;
+    // Hands a user's decision to a step paused on its approval gate; false if no such step is waiting
+    resolveApproval: (planId: string, stepId: number, decision: ApprovalDecision) => boolean;
+    // Adds or lifts the approval gate on a running plan's step. Lifting it from a step already waiting lets the step run.
+    setApprovalGate: (planId: string, stepId: number, requiresApproval: boolean) => void;
+    stopAll: () => void; // Cancels every graph and debate in progress
+    activeRunCount: () => number;
+    isRunActive: (runId: string) => boolean;
+}
+
+// Helper function to format API errors
+export const formatApiError = (e: any, agentName: string = "Agent"): string => {
+    console.error(`API Error for ${agentName}:`, e);
+    const errorMessage = e?.message ? `Details: ${e.message}` : "An unknown error occurred.";
+    return `**${agentName} failed due to an API error.**\nThis could be a temporary network issue. Please check your developer console for details.\n\n*${errorMessage}*`;
+};
+
+export const createOrchestrator = (host: EngineHost): Orchestrator => {
+    const listeners = new Set<(event: EngineEvent) => void>();
+    const emit = (event: EngineEvent) => listeners.forEach(listener => listener(event));
+
+    // The client and model an agent runs on, per its roster entry and the provider override
+    const getAgentClient = (taskType: TaskType): { ai: AiClient; model: string; provider: ModelProviderId } => {
+        const { provider, model } = resolveAgentModel(AGENT_ROSTER[taskType], host.getSettings().providerSettings);
+        return { ai: host.getClient(provider), model, provider };
+    };
+
+    // Calls made under a step (or refine step) span are attributed to that step
+    const stepIdOfSpan = (trace: ExecutionTrace, spanId?: string): number | undefined => {
+        const stepId = trace.spans.find(s => s.spanId === spanId)?.attributes['agentura.step_id'];
+        return typeof stepId === 'number' ? stepId : undefined;
+    };
+
+    // Runtimes of the graphs currently executing, keyed by run id (the assistant message that hosts the run)
+    const activeRuntimes = new Map<string, GraphRuntime>();
+    // Shared by every run, since rate limits belong to the API key rather than to one graph
+    const stepScheduler = createStepScheduler(() => host.getSettings().schedulerSettings);
+
+    // Resolvers for steps paused on a human approval gate, keyed by `${planId}:${stepId}`
+    const pendingApprovals = new Map<string, (decision: ApprovalDecision) => void>();
+
+    const findLivePlan = (planId: string): Plan | undefined =>
+        [...activeRuntimes.values()].map(r => r.state.plan).find(p => p?.id === planId) ?? undefined;
+
+    const waitForApproval = (planId: string, stepId: number, signal: AbortSignal): Promise<ApprovalDecision> =>
+        new Promise((resolve, reject) => {
+            const key = `${planId}:${stepId}`;
+            const onAbort = () => {
+                pendingApprovals.delete(key);
+                reject(createAbortError());
+            };
+            if (signal.aborted) return onAbort();
+            signal.addEventListener('abort', onAbort, { once: true });
+            pendingApprovals.set(key, (decision) => {
+                signal.removeEventListener('abort', onAbort);
+                pendingApprovals.delete(key);
+                resolve(decision);
+            });
+        });
+
+    // The agents a run may use; calls outside a run use the roster as currently selected
+    const rosterFor = (state?: GraphState): TaskType[] => state?.roster ?? getEnabledAgents(host.getSettings().activeRoster);
+
+    const buildSystemInstruction = (taskType: TaskType, roster: TaskType[] = rosterFor()): string => {
+        const agentConfig = AGENT_ROSTER[taskType];
+        const { persona, sessionFeedback } = host.getSettings();
+        const personaInstruction = PERSONA_CONFIGS[persona].instruction;
+        let systemInstruction = [personaInstruction, agentConfig.systemInstruction].filter(Boolean).join('\n\n');
+        if (taskType === TaskType.Planner) systemInstruction += describeRoster(getPlanAgents(roster));
+        if (taskType === TaskType.Supervisor) systemInstruction += describeRoster(getSupervisorNodes(roster).filter(n => n !== 'A_FINAL'));
+        const feedbackForAgent = sessionFeedback[taskType];
+        if (feedbackForAgent?.length > 0) {
+            systemInstruction += "\n\n--- CRITICAL USER FEEDBACK (MUST FOLLOW) ---\n" + feedbackForAgent.map((f, i) => `${i+1}. ${f}`).join('\n');
+        }
+        return systemInstruction;
+    };
+
+    const getChat = (taskType: TaskType, history: ChatMessage[] = [], signal?: AbortSignal, roster: TaskType[] = rosterFor()): AiChat => {
+        const agentConfig = AGENT_ROSTER[taskType];
+        const systemInstruction = buildSystemInstruction(taskType, roster);
+
+        // Explicit return type annotation to fix TypeScript inference
+        const geminiHistory = history.flatMap((m): { role: 'user' | 'model', parts: Part[] }[] => {
+            if (m.role === 'user') {
+                const parts: Part[] = [{ text: m.content }];
+                if (m.file) parts.push(fileToGenerativePart(m.file));
+                return [{ role: 'user' as const, parts }];
+            }
+            if (m.role === 'assistant') {
+                const parts: Part[] = [];
+                // Only add text if there is content, otherwise Gemini API might error on empty parts
+                if (m.content) parts.push({ text: m.content });
+                if (m.functionCalls) {
+                    parts.push(...m.functionCalls.map(fc => ({ functionCall: { name: fc.name, args: fc.args } })));
+                }
+                // Ensure there is at least one part if the role is assistant
+                if (parts.length === 0) {
+                    parts.push({text: ""}); // Add empty text part if no content or function calls
+                }
+                return [{ role: 'model' as const, parts }];
+            }
+            if (m.role === 'tool' && m.functionResponse) {
+                 return [{
+                    role: 'model' as const, // Gemini API expects tool responses to be from the 'model' role in history for the 'Chat' class
+                    parts: [{ functionResponse: { name: m.functionResponse.name, response: m.functionResponse.response } }]
+                }];
+            }
+            return [];
+        });
+
+        const { ai, model } = getAgentClient(taskType);
+        return ai.chats.create({
+            model,
+            config: { ...agentConfig.config, tools: getRosterTools(taskType, roster), ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }), ...(signal && { abortSignal: signal }) },
+            history: geminiHistory
+        });
+    };
+
+    // Collects a streamed response. With a `messageId` every chunk is also published as that message's content so far.
+    const processStream = async (stream: AsyncGenerator<GenerateContentResponse>, messageId?: string, onStreamUpdate?: (streamedText: string) => void, signal?: AbortSignal) => {
+        let fullText = '', sources: GroundingSource[] = [], functionCalls: FunctionCall[] = [];
+        let usage: TokenUsage | undefined;
+        for await (const chunk of stream) {
+            // Chunks that arrive after cancellation must not touch the UI
+            if (signal?.aborted) throw createAbortError();
+            if (chunk.text) fullText += chunk.text;
+            // Streamed usage is cumulative, so the last chunk that reports it wins
+            usage = toTokenUsage(chunk.usageMetadata) ?? usage;
+            if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls.map(fc => ({ id: `fc-${Date.now()}-${Math.random()}`, name: fc.name, args: fc.args })));
+            const newSources = extractSources(chunk);
+            sources = Array.from(new Map([...sources, ...newSources].map(s => [s.uri, s])).values());
+            if (onStreamUpdate) onStreamUpdate(fullText);
+
+            if (messageId) emit({ type: 'message_chunk', messageId, content: fullText, sources, functionCalls });
+        }
+        return { fullText, sources, functionCalls, usage };
+    };
+
+    // Asks the Router for the best agent and a 1-10 complexity score. Routes it does not know fall back to Chat.
+    const routeQuery = async (prompt: string, trace: ExecutionTrace, parentId: string | undefined, billing: Pick<UsageRecord, 'messageId' | 'runId' | 'stepId'>, excludeMessageId?: string): Promise<{ route: TaskType; complexityScore: number | null }> => {
+        const routerHistory = host.getConversation().filter(m => m.id !== excludeMessageId).slice(-5).map(m => ({ role: m.role === 'user' ? 'user' as const : 'model' as const, parts: [{ text: m.content }] }));
+        const { ai, model: routerModel, provider: routerProvider } = getAgentClient(TaskType.Router);
+        // Only enabled agents are offered, in the tool enum and in the prompt
+        const roster = rosterFor();
+        const routes = getRoutableAgents(roster);
+        const systemInstruction = ROUTER_SYSTEM_INSTRUCTION + describeRoster(routes);
+        const routerSpan = startSpan(trace, 'llm Router', 'llm', parentId, { 'llm.provider': routerProvider, 'llm.model': routerModel, 'agentura.agent': TaskType.Router, 'llm.prompt_hash': hashText(prompt), 'llm.system_instruction_hash': hashText(systemInstruction), 'llm.retries': 0 });
+        try {
+            const routerResp = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ 
+                model: routerModel, 
+                contents: [...routerHistory, { role: 'user', parts: [{ text: prompt }] }], 
+                config: { systemInstruction: { parts: [{ text: systemInstruction }] }, tools: [{ functionDeclarations: [createRosteredRouterTool(roster)] }] }
+            }), 3, 1000, 2, () => { routerSpan.attributes['llm.retries'] = Number(routerSpan.attributes['llm.retries']) + 1; });
+            const routeArgs = routerResp.functionCalls?.[0]?.args;
+            const proposedRoute = routeArgs?.route as TaskType | undefined;
+            const route = proposedRoute && routes.includes(proposedRoute) ? proposedRoute : routes.includes(TaskType.Chat) ? TaskType.Chat : routes[0];
+            const score = Number(routeArgs?.complexity_score);
+            const complexityScore = Number.isFinite(score) ? Math.min(10, Math.max(1, score)) : null;
+            const routerUsage = toTokenUsage(routerResp.usageMetadata);
+            emit({ type: 'model_call', call: { ...billing, taskType: TaskType.Router, provider: routerProvider, model: routerModel }, usage: routerUsage });
+            endSpan(routerSpan, undefined, { ...usageAttributes(routerUsage), 'agentura.route': route, 'agentura.complexity_score': complexityScore ?? -1 });
+            return { route, complexityScore };
+        } catch (e) {
+            endSpan(routerSpan, e);
+            throw e;
+        }
+    };
+
+    // Outside a run the answer streams into `messageId`; inside one the response is only returned to the graph.
+    // Without a `task` the Router picks the agent.
+    const callAgent = async (prompt: string, { task, file, runtime, parentSpanId, messageId, trace: callTrace, onChunk }: AgentCallOptions = {}): Promise<ChatMessage> => {
+        const isGraphStep = !!runtime;
+        const assistantMsgId = messageId ?? `step-${Date.now()}-${Math.random()}`;
+        let routedTask = task;
+        const signal = runtime?.controller.signal;
+        // Graph calls add to the run's trace; a call outside a run uses the caller's trace or one of its own
+        const trace = runtime?.trace ?? callTrace ?? createTrace();
+        const parentId = parentSpanId ?? runtime?.rootSpanId;
+        let llmSpan: TraceSpan | undefined;
+        // Graph calls are billed to the message hosting the run
+        const billing = { messageId: runtime?.state.id ?? assistantMsgId, runId: runtime?.state.id, stepId: stepIdOfSpan(trace, parentId) };
+
+        try {
+            if (signal?.aborted) throw createAbortError();
+            if (!routedTask) routedTask = (await routeQuery(prompt, trace, parentId, billing)).route;
+
+            if (file?.type.startsWith('image/')) routedTask = TaskType.Vision;
+
+            const roster = rosterFor(runtime?.state);
+            const chat = getChat(routedTask, host.getConversation(), signal, roster);
+            const parts: Part[] = [{ text: prompt }];
+            if (file) parts.push(fileToGenerativePart(file));
+            
+            const resolved = resolveAgentModel(AGENT_ROSTER[routedTask], host.getSettings().providerSettings);
+            const span = llmSpan = startSpan(trace, `llm ${routedTask}`, 'llm', parentId, {
+                'llm.provider': resolved.provider,
+                'llm.model': resolved.model,
+                'agentura.agent': routedTask,
+                'llm.prompt_hash': hashText(prompt),
+                'llm.system_instruction_hash': hashText(buildSystemInstruction(routedTask, roster)),
+                'llm.retries': 0,
+            });
+            const stream = await withRetry<AsyncGenerator<GenerateContentResponse>>(() => chat.sendMessageStream({ message: { role: 'user', parts } }), 3, 1000, 2, (e) => {
+                span.attributes['llm.retries'] = Number(span.attributes['llm.retries']) + 1;
+                if (isRateLimitError(e)) stepScheduler.reportRateLimit(`${resolved.provider}:${resolved.model}`, getRetryAfterMs(e));
+            });
+            const streamOutput = await processStream(stream, isGraphStep ? undefined : assistantMsgId, onChunk, signal);
+            emit({ type: 'model_call', call: { ...billing, taskType: routedTask, provider: resolved.provider, model: resolved.model }, usage: streamOutput.usage });
+            endSpan(span, undefined, usageAttributes(streamOutput.usage));
+            // Tool calls the model emitted; they are executed (if at all) by whoever handles the response
+            streamOutput.functionCalls.forEach(fc => endSpan(startSpan(trace, `tool ${fc.name}`, 'tool', span.spanId, { 'tool.name': fc.name, 'tool.args_hash': hashText(JSON.stringify(fc.args ?? {})) })));
+            
+            let vizSpec: VizSpec | undefined = undefined;
+            if (routedTask === TaskType.DataAnalyst) {
+                const vizCall = streamOutput.functionCalls.find(fc => fc.name === 'submit_visualization_spec');
+                vizSpec = vizCall?.args as VizSpec;
+            }
+
+            const finalMessage: ChatMessage = { id: assistantMsgId, role: 'assistant', content: streamOutput.fullText, isLoading: false, sources: streamOutput.sources, functionCalls: streamOutput.functionCalls, ragSources: [], vizSpec, taskType: routedTask, usage: streamOutput.usage, ...(!runtime && { trace: snapshotTrace(trace) }) };
+            return finalMessage;
+        } catch(e) {
+            if (llmSpan) endSpan(llmSpan, e);
+            if (isAbortError(e) || signal?.aborted) throw createAbortError();
+            const agentName = (routedTask && AGENT_ROSTER[routedTask]?.title) || 'Router';
+            throw new Error(formatApiError(e, agentName));
+        }
+    };
+
+    // Keeps the graph's own copy of a step in sync with the copies its subscribers hold.
+    const setStepStatus = (plan: Plan, step: PlanStep, status: PlanStep['status'], result?: string) => {
+        step.status = status;
+        if (result !== undefined) step.result = result;
+        emit({ type: 'step_status', planId: plan.id, stepId: step.step_id, status, result });
+    };
+
+    // Why a run that already has a plan was sent back to the Planner
+    const describeReplanTrigger = (state: GraphState): string => {
+        const rejected = (state.lastOutput as { rejected_by_user?: { step_id: number; reason: string }[] } | null)?.rejected_by_user;
+        if (Array.isArray(rejected)) return `Rejected by user: ${rejected.map(r => `step ${r.step_id}${r.reason ? ` (${r.reason})` : ''}`).join(', ')}`;
+        if (state.failedCritique) return `Critique: ${state.failedCritique.critique}`;
+        return 'The Supervisor requested a new plan.';
+    };
+
+    // Moves a pipeline run past the step that just finished. Supervisor steps are built in: execute_plan lasts until
+    // the plan has nothing left to run, and generate_supervisor_report ends the run with the plan's output.
+    const advancePipeline = (state: GraphState, updateGraphHistory: (report: string) => void) => {
+        const run = state.pipeline!;
+        const pipeline = getPipeline(run.id);
+        if (state.error) {
+            updateGraphHistory(`\n---🛑 Pipeline halted at step ${run.stepIndex + 1} of ${pipeline.steps.length}.`);
+            state.nextAgent = 'A_FINAL';
+            return;
+        }
+        if (isSupervisorTask(pipeline.steps[run.stepIndex], 'execute_plan')) {
+            // A re-plan (e.g. after a rejected step) keeps the pipeline on execute_plan
+            if (state.plan && collectRunnableSteps(state.plan).length > 0) {
+                state.nextAgent = TaskType.Supervisor;
+                return;
+            }
+            run.finalOutput = (state.plan && collectPlanOutput(state.plan, state.blackboard)) ?? state.lastOutput;
+        }
+        run.stepIndex++;
+        const next = pipeline.steps[run.stepIndex];
+        if (!next || isSupervisorTask(next, 'generate_supervisor_report')) {
+            if (next) updateGraphHistory(`\n---📋 ${buildSupervisorReport(state)}`);
+            state.lastOutput = run.finalOutput ?? state.lastOutput;
+            state.nextAgent = 'A_FINAL';
+            return;
+        }
+        state.nextAgent = next.agent;
+        updateGraphHistory(`Pipeline step ${run.stepIndex + 1}/${pipeline.steps.length}: \`${next.agent === TaskType.Supervisor ? next.task : next.agent}\`.`);
+    };
+
+    // The Supervisor Loop (Parallel Execution Engine). A resumed run passes the trace it already has and keeps adding to it.
+    const runGraph = async (state: GraphState, trace: ExecutionTrace = createTrace()) => {
+      endOpenSpans(trace, 'Run interrupted by a page reload.');
+      const rootSpan = startSpan(trace, state.plan ? 'run (resumed)' : 'run', 'run', undefined, { 'agentura.prompt_hash': hashText(state.originalPrompt) });
+      const runtime: GraphRuntime = { controller: new AbortController(), state, trace, rootSpanId: rootSpan.spanId };
+      activeRuntimes.set(state.id, runtime);
+      emit({ type: 'run_started', runId: state.id });
+
+      // The report ends with a live budget line that is recomputed on every refresh
+      const publishReport = () => {
+        const budgetLine = formatBudgetStatus(state.budget, state.budgetUsage);
+        emit({ type: 'run_report', runId: state.id, report: `${state.history.map(m => m.content).join('\n')}\n\n${budgetLine}`, trace: snapshotTrace(trace) });
+      };
+      const updateGraphHistory = (report: string) => {
+        state.history.push({ id: `graph-step-${Date.now()}`, role: 'assistant', content: report, taskType: TaskType.Supervisor });
+        publishReport();
+      };
+      const recordUsage = (usage?: TokenUsage) => {
+        addTokenUsage(state.budgetUsage, usage);
+        publishReport();
+      };
+      // Steps that already left a lesson this run; a retried step that later fails verification runs again
+      const stepsWithLessons = new Set<PlanStep>();
+      const haltOnBudget = (reason: string) => {
+        state.error = `${BUDGET_EXHAUSTED_ERROR}: ${reason}`;
+        state.lastOutput = (state.plan && collectPlanOutput(state.plan, state.blackboard)) ?? state.lastOutput;
+        state.nextAgent = 'A_FINAL';
+        updateGraphHistory(`\n---🛑 BUDGET EXHAUSTED: ${reason}. Halting with the best partial result.`);
+      };
+
+      try {
+        while (state.nextAgent !== 'A_FINAL') {
+          if (runtime.controller.signal.aborted) {
+              flattenPlanSteps(state.plan?.plan || []).filter(s => s.status === 'in-progress' || s.status === 'awaiting-approval').forEach(step => setStepStatus(state.plan!, step, 'cancelled', step.result));
+              state.error = RUN_CANCELLED_ERROR;
+              updateGraphHistory(`\n---🛑 Run cancelled by user.`);
+              break;
+          }
+
+          const budgetViolation = getBudgetViolation(state.budget, state.budgetUsage);
+          if (budgetViolation) {
+              haltOnBudget(budgetViolation);
+              break;
+          }
+
+          // Checkpoint every iteration so a reload can resume from here
+          await host.saveCheckpoint({ id: state.id, state, iteration: state.budgetUsage.iterations, updatedAt: Date.now() });
+          state.budgetUsage.iterations++;
+
+          let currentNode = state.nextAgent as TaskType;
+          let fileData: FileData | undefined = state.history.find(m => m.role === 'user')?.file;
+
+          // --- 1. CHECK FOR PARALLEL PLAN EXECUTION ---
+          if (state.plan && state.plan.plan.length > 0) {
+               const plan = state.plan;
+               // Finished sub-plans resolve their parent step (or are re-planned) before the next wave is picked
+               const settledSteps = await settleSubplans(plan, state, runtime, fileData, recordUsage, updateGraphHistory);
+
+               // Identify all steps that are pending and have all dependencies met, including those inside expanded sub-plans.
+               // A step whose condition does not hold, or tests a step that did not complete, is skipped rather than run;
+               // its dependents still proceed.
+               const ready = collectRunnableSteps(plan).map(r => ({ ...r, skipReason: getConditionSkipReason(r.step, plan.plan, state.blackboard) }));
+               const skippedSteps = ready.filter(r => r.skipReason).map(r => r.step);
+               ready.filter(r => r.skipReason).forEach(({ step, skipReason }) => {
+                   setStepStatus(plan, step, 'skipped', `Skipped: ${skipReason}.`);
+                   updateGraphHistory(`⤼ Step ${step.step_id} skipped: ${skipReason}.`);
+               });
+               const runnable = ready.filter(r => !r.skipReason);
+               const runnableSteps = runnable.map(r => r.step);
+
+               if (runnableSteps.length > 0 || settledSteps.length > 0 || skippedSteps.length > 0) {
+                   if (runnableSteps.length > 0) updateGraphHistory(`\n---⚡ PARALLEL EXECUTION: Running ${runnableSteps.length} steps...`);
+                   const isGated = (step: PlanStep) => step.requires_approval && !step.approved;
+                 
+                   // Mark all as in-progress first; gated steps pause until the user decides
+                   runnableSteps.forEach(step => isGated(step)
+                       ? setStepStatus(plan, step, 'awaiting-approval', 'Waiting for user approval...')
+                       : setStepStatus(plan, step, 'in-progress', 'Starting parallel execution...'));
+                   const rejectedSteps: { step_id: number; description: string; reason: string }[] = [];
+
+                   // Execute all runnable steps in parallel using Promise.all
+                   // Sub-plans share the root plan's id, so store updates and approvals key on `plan.id` throughout;
+                   // `owner` is only needed where a step's siblings matter
+                   await Promise.all(runnable.map(async ({ plan: owner, step }) => {
+                       try {
+                          if (isGated(step)) {
+                              updateGraphHistory(`⏸ Step ${step.step_id} is waiting for user approval.`);
+                              const decision = await waitForApproval(plan.id, step.step_id, runtime.controller.signal);
+                              if (decision.action === 'reject') {
+                                  const reason = decision.reason || 'No reason given.';
+                                  setStepStatus(plan, step, 'failed', `Rejected by user: ${reason}`);
+                                  // Inside a sub-plan, a rejection is contained to re-planning that sub-plan
+                                  if (owner === plan) rejectedSteps.push({ step_id: step.step_id, description: step.description, reason });
+                                  updateGraphHistory(`\n---✋ Step ${step.step_id} rejected by user: ${reason}`);
+                                  return;
+                              }
+                              if (decision.action === 'edit') {
+                                  step.description = decision.description;
+                                  emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { description: decision.description } });
+                              }
+                              step.approved = true;
+                              emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { approved: true } });
+                              updateGraphHistory(`▶ Step ${step.step_id} approved${decision.action === 'edit' ? ' with an edited description' : ''}.`);
+                          }
+                          if (isSubplanStep(step)) await expandSubplan(step, owner, state, runtime, fileData, recordUsage, updateGraphHistory);
+                          else if (isMapStep(step)) expandMap(step, owner, state, updateGraphHistory);
+                          else await executeStepWithRetry(step, owner, state, runtime, fileData, recordUsage, updateGraphHistory);
+                       } catch (e) {
+                          if (isAbortError(e)) {
+                              setStepStatus(plan, step, 'cancelled', 'Cancelled by user.');
+                              return;
+                          }
+                          console.error(`Step ${step.step_id} failed:`, e);
+                          setStepStatus(plan, step, 'failed', (e as Error).message);
+                          updateGraphHistory(`\n---❌ Step ${step.step_id} failed: ${(e as Error).message}`);
+                       }
+                   }));
+
+                   // Results are only final once they meet their acceptance criteria
+                   const stepsToVerify = [...runnableSteps, ...settledSteps].filter(s => s.status === 'completed' && s.acceptance_criteria?.trim());
+                   if (stepsToVerify.length > 0 && !runtime.controller.signal.aborted) {
+                       const verdicts = await verifySteps(stepsToVerify, state, runtime, recordUsage, updateGraphHistory);
+                       stepsToVerify.forEach(step => {
+                           const verdict = verdicts.get(step.step_id);
+                           if (!verdict) return;
+                           step.verification = verdict;
+                           emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { verification: verdict } });
+                       });
+                       // A FAIL goes through the same retry policy as an execution error, re-running in the next wave
+                       for (const step of stepsToVerify.filter(s => s.verification?.status === 'FAIL' && verdicts.has(s.step_id))) {
+                           const reason = `Verification failed: ${step.verification!.reason}`;
+                           const lastAttempt = step.attempts?.[step.attempts.length - 1];
+                           if (lastAttempt) {
+                               lastAttempt.status = 'failed';
+                               lastAttempt.error = reason;
+                               emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { attempts: [...step.attempts!] } });
+                           }
+                           if (!canRetryStep(step, state)) {
+                               setStepStatus(plan, step, 'failed', `${reason}\n\n${step.result}`);
+                               updateGraphHistory(`\n---❌ Step ${step.step_id} failed verification after ${step.attempts?.length ?? 1} attempt(s): ${step.verification!.reason}`);
+                               continue;
+                           }
+                           updateGraphHistory(`\n---↩ Step ${step.step_id} failed verification and will be retried: ${step.verification!.reason}`);
+                           try {
+                               await refineStep(step, plan, state, runtime, step.result || '', reason, recordUsage, updateGraphHistory);
+                               setStepStatus(plan, step, 'pending', step.result);
+                           } catch (e) {
+                               if (isAbortError(e)) break;
+                               setStepStatus(plan, step, 'failed', `${reason}\n\n${step.result}`);
+                           }
+                       }
+                   }
+
+                   // A step that only succeeded after failing is a lesson for future plans
+                   for (const step of runnableSteps) {
+                       const attempts = step.attempts || [];
+                       const failedAttempt = attempts.find(a => a.status === 'failed');
+                       if (step.status !== 'completed' || step.verification?.status === 'FAIL' || !failedAttempt || stepsWithLessons.has(step)) continue;
+                       stepsWithLessons.add(step);
+                       await saveReflexion(state, 'step_retry', {
+                           failed_output: `Step ${step.step_id} (${step.tool_to_use}) "${failedAttempt.description}" failed.`,
+                           critique: failedAttempt.error || 'Unknown error.',
+                           successful_fix: `Step rewritten as "${step.description}", which succeeded on attempt ${attempts.length}.`,
+                       });
+                   }
+
+                   // Parallel branches write to their own blackboard keys; the graph's output is the join of its sinks.
+                   state.lastOutput = collectPlanOutput(plan, state.blackboard) ?? state.lastOutput;
+                   publishReport();
+
+                   // A rejected step invalidates the plan around it: no further waves run, the Planner is called right away
+                   if (rejectedSteps.length > 0) {
+                       state.lastOutput = { rejected_by_user: rejectedSteps };
+                       state.nextAgent = currentNode = TaskType.Planner;
+                   } else {
+                       // Loop back immediately to check for next set of runnable steps or completion
+                       // This avoids calling the Supervisor LLM if we are just churning through the plan
+                       continue;
+                   }
+               }
+          }
+
+          // --- 2. DETERMINISTIC ORCHESTRATION (LLM ROUTING) ---
+          // If no plan steps could be run deterministically, we ask the Supervisor LLM what to do.
+          try {
+            // Special handling for Planner and Critique (Meta-Agents)
+            if (currentNode === TaskType.Planner) {
+                 if (state.plan) {
+                     if (!isReplanAllowed(state.budget, state.budgetUsage)) {
+                         haltOnBudget(`replan limit of ${state.budget.maxReplans} reached`);
+                         break;
+                     }
+                     state.budgetUsage.replans++;
+                 }
+                 updateGraphHistory(`\n---▶ Supervisor: Calling \`Planner\`...`);
+                 const replacedPlan = state.plan;
+                 const replanTrigger = replacedPlan ? describeReplanTrigger(state) : undefined;
+                 const stateJson = JSON.stringify({ ...state, history: state.history.slice(-3) }, null, 2);
+                 const pastLessons = await host.findLessons(state.originalPrompt, 2);
+                 // Only the text of a lesson helps the Planner; embeddings and scores would just cost tokens
+                 const lessonText = pastLessons.length > 0
+                     ? `PREVIOUS FAILED ATTEMPTS (for learning):\n${JSON.stringify(pastLessons.map(({ original_prompt, failed_output, critique, successful_fix }) => ({ original_prompt, failed_output, critique, successful_fix })))}`
+                     : "N/A";
+                 const pipelineTask = getPipelineTask(state, TaskType.Planner);
+                 const plannerPrompt = AGENT_ROSTER[TaskType.Planner].systemInstruction
+                      .replace('{graph_state_json}', stateJson)
+                      .replace('{past_lessons}', lessonText) + (pipelineTask ? `\n\n### PIPELINE TASK\n${pipelineTask}` : '');
+
+                  // Nothing executes until the DAG validates
+                  const candidateSteps = await requestPlan(plannerPrompt, true, runtime, fileData, recordUsage, updateGraphHistory);
+                  state.plan = { id: `plan-${state.id}`, plan: candidateSteps };
+                  state.blackboard = {};
+                  state.lastOutput = state.plan;
+                  emit({ type: 'plan_created', runId: state.id, plan: clonePlan(state.plan), trigger: replanTrigger, replaced: replacedPlan });
+                  updateGraphHistory(`Planner output: Plan with ${state.plan.plan.length} steps.`);
+                  // Re-plans and pipelines carry on; a run's first plan waits for the user when they review plans
+                  if (!replacedPlan && !state.pipeline && host.getSettings().reviewPlans) {
+                      state.awaitingReview = true;
+                      updateGraphHistory(`\n---⏸ Plan ready for review. Nothing runs until it is started from the plan.`);
+                      break;
+                  }
+
+            } else if (currentNode === TaskType.Critique) {
+                  updateGraphHistory(`\n---▶ Supervisor: Calling \`Critique\`...`);
+                  const critiquePrompt = getPipelineTask(state, TaskType.Critique)
+                      ?? `Critique the last output based on the original goal. \n[Original Goal]: ${state.originalPrompt}\n[Last Failed Output]: ${JSON.stringify(state.lastOutput, null, 2)}`;
+                  const agentResponse = await callAgent(critiquePrompt, { task: TaskType.Critique, file: fileData, runtime });
+                  recordUsage(agentResponse.usage);
+                  const critiqueCall = agentResponse.functionCalls?.find(fc => fc.name === CRITIQUE_TOOL.name);
+                  if (!critiqueCall) throw new Error("Critique agent failed to provide a valid critique.");
+                  const critiquedOutput = JSON.stringify(state.lastOutput, null, 2);
+                  if (!isCritiquePassing(critiqueCall.args.scores, CRITIQUE_PASS_SCORE)) {
+                      state.failedCritique = { failed_output: critiquedOutput, critique: critiqueCall.args.critique };
+                  } else if (state.failedCritique) {
+                      await saveReflexion(state, 'critique', { ...state.failedCritique, successful_fix: critiquedOutput });
+                      state.failedCritique = undefined;
+                  }
+                  state.lastOutput = critiqueCall.args;
+                  updateGraphHistory(`Critique output: ${critiqueCall.args.critique}`);
+            } else if (getPipelineTask(state, currentNode) !== undefined) {
+                  // A pipeline can also prompt a worker agent directly
+                  updateGraphHistory(`\n---▶ Pipeline: Calling \`${currentNode}\`...`);
+                  const agentResponse = await callAgent(getPipelineTask(state, currentNode)!, { task: currentNode, file: fileData, runtime });
+                  recordUsage(agentResponse.usage);
+                  state.lastOutput = agentResponse.content;
+            }
+            // Note: Normal workers are handled by the parallel block above. If we reach here with a worker node,
+            // it implies a direct routing or a single-step fallback.
+          
+          } catch (e: any) {
+              if (isAbortError(e)) continue;
+              const errorMsg = e.message || "An unknown execution error occurred.";
+              updateGraphHistory(`\n---❌ ERROR in \`${currentNode}\`: ${errorMsg}`);
+              state.error = errorMsg;
+              state.lastOutput = { error: errorMsg, agent: currentNode };
+          }
+
+          // --- 3. SUPERVISOR DECISION ---
+          // A pipeline run follows its fixed steps instead
+          if (state.pipeline) {
+              advancePipeline(state, updateGraphHistory);
+              continue;
+          }
+          // The rules decide when the model is switched off or fails to route, so a half-run plan is not thrown away
+          const { supervisorMode } = host.getSettings();
+          const decisionSpan = startSpan(trace, 'supervisor decision', 'supervisor', rootSpan.spanId, { 'agentura.iteration': state.budgetUsage.iterations });
+          let decision: SupervisorDecision | undefined;
+          if (supervisorMode === 'llm') {
+              const supervisorPrompt = SUPERVISOR_SYSTEM_INSTRUCTION.replace('{graph_state_json}', JSON.stringify({ ...state, history: state.history.slice(-3) }, null, 2));
+              try {
+                  const supervisorMsg = await callAgent(supervisorPrompt, { task: TaskType.Supervisor, runtime, parentSpanId: decisionSpan.spanId });
+                  recordUsage(supervisorMsg.usage);
+                  const routeCall = supervisorMsg.functionCalls?.find(fc => fc.name === SUPERVISOR_ROUTER_TOOL.name);
+                  if (routeCall?.args.agent_to_call) decision = { agent: routeCall.args.agent_to_call as GraphNode, reasoning: routeCall.args.reasoning ?? '' };
+              } catch (e) {
+                  if (isAbortError(e)) {
+                      endSpan(decisionSpan, e);
+                      continue;
+                  }
+                  updateGraphHistory(`\n---⚠️ Supervisor call failed: ${(e as Error).message}`);
+              }
+              if (!decision) updateGraphHistory(`\n---⚠️ Supervisor failed to route. Falling back to the rule-based supervisor.`);
+          }
+          const decidedBy = decision ? 'llm' : 'rules';
+          decision ??= decideNextNode(state, rosterFor(state));
+          endSpan(decisionSpan, undefined, {
+              'agentura.route': decision.agent,
+              'agentura.reasoning': decision.reasoning,
+              'agentura.decided_by': decidedBy,
+          });
+          emit({ type: 'supervisor_decision', runId: state.id, decision, decidedBy });
+
+          if (!getSupervisorNodes(rosterFor(state)).includes(decision.agent)) {
+            // The tool enum is narrowed to the roster, so this only happens if the model ignores it: re-plan with the agents that are enabled
+            updateGraphHistory(`Supervisor chose \`${decision.agent}\`, which is not in the active roster. Re-planning instead.`);
+            state.nextAgent = TaskType.Planner;
+          } else {
+            state.nextAgent = decision.agent;
+            updateGraphHistory(`Supervisor decision${decidedBy === 'rules' ? ' (rules)' : ''}: Route to \`${state.nextAgent}\`. Reason: ${decision.reasoning}`);
+          }
+        }
+      } finally {
+        endOpenSpans(trace, 'Run ended before the span closed.');
+        endSpan(rootSpan, state.error ? new Error(state.error) : undefined, {
+            'agentura.iterations': state.budgetUsage.iterations,
+            'agentura.replans': state.budgetUsage.replans,
+            'llm.usage.total_tokens': state.budgetUsage.totalTokens,
+        });
+        await host.deleteCheckpoint(state.id);
+        activeRuntimes.delete(state.id);
+        emit({ type: 'run_finished', runId: state.id, trace: snapshotTrace(trace) });
+      }
+
+      if (!state.awaitingReview && state.error !== RUN_CANCELLED_ERROR && !state.error?.startsWith(BUDGET_EXHAUSTED_ERROR)) updateGraphHistory(`\n---✅ Graph complete. Final output generated.`);
+      return state.lastOutput;
+    };
+
+    // Batch-checks completed step results against their acceptance criteria.
+    // Steps the Verifier does not return a verdict for (or a Verifier outage) are left unverified.
+    const verifySteps = async (
+        steps: PlanStep[], state: GraphState, runtime: GraphRuntime,
+        recordUsage: (usage?: TokenUsage) => void, updateGraphHistory: (report: string) => void,
+    ): Promise<Map<number, StepVerification>> => {
+        const verdicts = new Map<number, StepVerification>();
+        updateGraphHistory(`\n---🔎 Verifier: Checking ${steps.length} step(s) against their acceptance criteria...`);
+        const payload = {
+            goal: state.originalPrompt,
+            steps: steps.map(s => ({ step_id: s.step_id, description: s.description, acceptance_criteria: s.acceptance_criteria, result: s.result })),
+        };
+        try {
+            const response = await callAgent(JSON.stringify(payload, null, 2), { task: TaskType.Verifier, runtime });
+            recordUsage(response.usage);
+            const results = response.functionCalls?.find(fc => fc.name === VERIFIER_TOOL.name)?.args.results;
+            if (!Array.isArray(results)) throw new Error('Verifier did not submit verification results.');
+            results.forEach((r: any) => {
+                if (!steps.some(s => s.step_id === r.step_id) || (r.status !== 'PASS' && r.status !== 'FAIL')) return;
+                verdicts.set(r.step_id, { status: r.status, reason: r.reason || '', checkedAt: Date.now() });
+            });
+            updateGraphHistory(steps.map(s => `  - Step ${s.step_id}: ${verdicts.get(s.step_id)?.status ?? 'UNVERIFIED'}`).join('\n'));
+        } catch (e) {
+            if (isAbortError(e)) return verdicts; // The loop's abort check takes it from here
+            console.warn('Verification skipped:', e);
+            updateGraphHistory(`⚠️ Verification skipped: ${(e as Error).message}`);
+        }
+        return verdicts;
+    };
+
+    // Stores a failure and the fix that followed it, keyed by the run's goal so the Planner can recall it.
+    const saveReflexion = async (state: GraphState, source: ReflexionEntry['source'], lesson: Pick<ReflexionEntry, 'failed_output' | 'critique' | 'successful_fix'>) => {
+        try {
+            await host.saveLesson({ original_prompt: state.originalPrompt, ...lesson, source, createdAt: Date.now() });
+        } catch (e) {
+            console.warn('Could not save reflexion entry:', e);
+        }
+    };
+
+    const canRetryStep = (step: PlanStep, state: GraphState) =>
+        (step.attempts?.length ?? 0) < STEP_RETRY_POLICY.maxAttempts && !getBudgetViolation(state.budget, state.budgetUsage);
+
+    const recordStepAttempt = (plan: Plan, step: PlanStep, attempt: Omit<StepAttempt, 'attempt'>) => {
+        step.attempts = [...(step.attempts || []), { attempt: (step.attempts?.length ?? 0) + 1, ...attempt }];
+        emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { attempts: step.attempts } });
+    };
+
+    // Executes apo_refine locally: one structured call that rewrites the failed instruction.
+    const runApoRefine = async (args: { original_prompt: string; failed_output: string; critique: string }, runtime: GraphRuntime, parentSpanId: string): Promise<{ newPrompt: string; usage?: TokenUsage }> => {
+        const schema = {
+            type: Type.OBJECT,
+            properties: { newPrompt: { type: Type.STRING, description: 'The rewritten, self-contained step description.' } },
+            required: ['newPrompt'],
+        };
+        const prompt = `You are an Auto-Prompt Optimizer. Rewrite the instruction below so that a new attempt avoids the failure described by the critique.
+Keep the same goal and scope. Be specific about what the output must contain.
+
+[Instruction]: ${args.original_prompt}
+[Failed Output]: ${args.failed_output.substring(0, 4000)}
+[Critique]: ${args.critique}`;
+        const { ai, model, provider } = getAgentClient(TaskType.Retry);
+        const span = startSpan(runtime.trace, `tool ${APO_REFINE_TOOL.name}`, 'tool', parentSpanId, { 'tool.name': APO_REFINE_TOOL.name, 'llm.model': model, 'llm.prompt_hash': hashText(prompt), 'llm.retries': 0 });
+        try {
+            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+                model,
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                config: { responseMimeType: "application/json", responseSchema: schema, abortSignal: runtime.controller.signal },
+            }), 3, 1000, 2, () => { span.attributes['llm.retries'] = Number(span.attributes['llm.retries']) + 1; });
+            const parsed = JSON.parse(response.text || '{}');
+            const usage = toTokenUsage(response.usageMetadata);
+            emit({ type: 'model_call', call: { taskType: TaskType.Retry, provider, model, messageId: runtime.state.id, runId: runtime.state.id, stepId: stepIdOfSpan(runtime.trace, parentSpanId) }, usage });
+            endSpan(span, undefined, usageAttributes(usage));
+            return { newPrompt: typeof parsed.newPrompt === 'string' ? parsed.newPrompt.trim() : '', usage };
+        } catch (e) {
+            endSpan(span, e);
+            throw e;
+        }
+    };
+
+    // Nothing executes until a plan validates: structural errors go back to the Planner for repair.
+    const requestPlan = async (
+        plannerPrompt: string, allowSubplans: boolean, runtime: GraphRuntime, fileData: FileData | undefined,
+        recordUsage: (usage?: TokenUsage) => void, updateGraphHistory: (report: string) => void, parentSpanId?: string,
+    ): Promise<PlanStep[]> => {
+        let candidateSteps: PlanStep[] = [];
+        let validationErrors: PlanValidationError[] = [];
+        // Steps may only use the run's roster
+        const allowedAgents = getPlanAgents(rosterFor(runtime.state));
+        for (let round = 0; round <= MAX_PLAN_REPAIR_ROUNDS; round++) {
+            const repairSection = round === 0 ? '' : `
+
+### PLAN VALIDATION ERRORS (YOU MUST FIX)
+Your previous plan was rejected before execution:
+${formatValidationErrors(validationErrors)}
+
+Previous plan:
+${JSON.stringify(candidateSteps, null, 2)}
+
+Submit a corrected plan via \`submit_plan\`.`;
+            const agentResponse = await callAgent(plannerPrompt + repairSection, { task: TaskType.Planner, file: fileData, runtime, parentSpanId });
+            recordUsage(agentResponse.usage);
+            const planCall = agentResponse.functionCalls?.find(fc => fc.name === 'submit_plan');
+            if (!planCall || !planCall.args.plan) throw new Error("Planner agent did not return a valid plan structure.");
+            candidateSteps = planCall.args.plan.map((step: any) => ({
+                ...step,
+                dependencies: step.dependencies || [],
+                status: 'pending',
+                ...(step.kind === 'subplan' && { tool_to_use: TaskType.Planner }),
+            }));
+            validationErrors = validatePlan(candidateSteps, allowedAgents, allowSubplans);
+            if (validationErrors.length === 0) break;
+            updateGraphHistory(`⚠️ Plan validation failed with ${validationErrors.length} issue(s):\n${formatValidationErrors(validationErrors)}`);
+        }
+        if (validationErrors.length > 0) {
+            throw new Error(`Planner could not produce a valid plan after ${MAX_PLAN_REPAIR_ROUNDS} repair round(s).`);
+        }
+        return candidateSteps;
+    };
+
+    // Has the Planner expand a sub-plan step into its own steps, which the scheduler then runs alongside the
+    // rest of the plan. `failure` describes why the previous sub-plan failed when it is being re-planned.
+    const expandSubplan = async (
+        step: PlanStep, plan: Plan, state: GraphState, runtime: GraphRuntime, fileData: FileData | undefined,
+        recordUsage: (usage?: TokenUsage) => void, updateGraphHistory: (report: string) => void, failure?: string,
+    ) => {
+        const span = startSpan(runtime.trace, `expand step ${step.step_id}`, 'step', runtime.rootSpanId, { 'agentura.step_id': step.step_id, 'agentura.subplan_replans': step.subplanReplans ?? 0 });
+        try {
+            const completedSteps = (step.subplan?.plan || []).filter(s => s.status === 'completed');
+            const subplanState = {
+                originalPrompt: step.description,
+                acceptance_criteria: step.acceptance_criteria,
+                overall_goal: state.originalPrompt,
+                inputs: resolveStepInputs(step, state.blackboard).map(({ key, value }) => ({ key, available: value !== undefined })),
+                ...(failure && { previous_subplan: {
+                    failure,
+                    completed_steps: completedSteps.map(s => ({ step_id: s.step_id, description: s.description, output_key: getStepOutputKey(s) })),
+                } }),
+            };
+            const plannerPrompt = AGENT_ROSTER[TaskType.Planner].systemInstruction
+                .replace('{graph_state_json}', JSON.stringify(subplanState, null, 2))
+                .replace('{past_lessons}', 'N/A') + `
+
+### SUB-PLAN
+You are planning ONE step of a larger plan, not the overall goal. \`originalPrompt\` is that step: plan only what it takes to meet its acceptance criteria, and make the last step produce the step's result.
+Results the step may use are on the blackboard under the keys in \`inputs\`; list them in a step's \`inputs\` to read them.${failure ? `
+A previous sub-plan for this step failed (see \`previous_subplan\`). Results of its completed steps are still available under their output keys; reuse them instead of redoing that work.` : ''}`;
+
+            const firstId = Math.max(0, ...flattenPlanSteps(state.plan?.plan || []).map(s => s.step_id)) + 1;
+            const steps = scopeSubplanSteps(await requestPlan(plannerPrompt, false, runtime, fileData, recordUsage, updateGraphHistory, span.spanId), firstId, getStepOutputKey(step));
+            step.subplan = { id: plan.id, plan: steps };
+            emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { subplan: clonePlan(step.subplan) } });
+            setStepStatus(plan, step, 'in-progress', `Expanded into a sub-plan of ${steps.length} steps.`);
+            updateGraphHistory(`🧩 Step ${step.step_id} expanded into sub-plan steps ${steps.map(s => s.step_id).join(', ')}.`);
+            endSpan(span, undefined, { 'agentura.subplan_steps': steps.length });
+        } catch (e) {
+            endSpan(span, e);
+            throw e;
+        }
+    };
+
+    // Fans a map step out into one step per item of its upstream list. The items run as the step's sub-plan,
+    // in parallel with the rest of the plan, and settleSubplans joins their results.
+    const expandMap = (step: PlanStep, plan: Plan, state: GraphState, updateGraphHistory: (report: string) => void) => {
+        const allItems = parseListItems(state.blackboard[step.map_over!.trim()] ?? '');
+        if (allItems.length === 0) {
+            publishStepOutput(state.blackboard, step, '[]');
+            setStepStatus(plan, step, 'completed', '[]');
+            updateGraphHistory(`🗂 Step ${step.step_id} had no items in \`${step.map_over}\` to map over.`);
+            return;
+        }
+        const items = allItems.slice(0, MAX_MAP_ITEMS);
+        const firstId = Math.max(0, ...flattenPlanSteps(state.plan?.plan || []).map(s => s.step_id)) + 1;
+        const steps = expandMapStep(step, items, firstId);
+        step.subplan = { id: plan.id, plan: steps };
+        emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { subplan: clonePlan(step.subplan) } });
+        setStepStatus(plan, step, 'in-progress', `Mapping over ${items.length} item(s).`);
+        updateGraphHistory(`🗂 Step ${step.step_id} fanned out over ${items.length} item(s) of \`${step.map_over}\`${allItems.length > items.length ? ` (${allItems.length - items.length} beyond the limit of ${MAX_MAP_ITEMS} dropped)` : ''}: steps ${steps.map(s => s.step_id).join(', ')}.`);
+    };
+
+    // Resolves expanded sub-plan steps whose sub-plans have finished. When every step completed, the parent completes
+    // with the sub-plan's output; when one failed, only that sub-plan is re-planned (up to MAX_SUBPLAN_REPLANS times)
+    // and the failure never reaches the Supervisor. A map step joins its item results, and fails outright if an item failed.
+    // Nested sub-plans (map steps inside a sub-plan) settle first. Returns the parent steps that completed.
+    const settleSubplans = async (
+        plan: Plan, state: GraphState, runtime: GraphRuntime, fileData: FileData | undefined,
+        recordUsage: (usage?: TokenUsage) => void, updateGraphHistory: (report: string) => void,
+    ): Promise<PlanStep[]> => {
+        const completed: PlanStep[] = [];
+        for (const step of plan.plan.filter(s => s.status === 'in-progress' && s.subplan)) {
+            const subplan = step.subplan!;
+            completed.push(...await settleSubplans(subplan, state, runtime, fileData, recordUsage, updateGraphHistory));
+            if (subplan.plan.every(isStepSettled)) {
+                const output = isMapStep(step)
+                    ? JSON.stringify(subplan.plan.map(s => ({ item: s.map_item, result: s.result ?? '' })), null, 2)
+                    : collectPlanOutput(subplan, state.blackboard);
+                const result = typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+                publishStepOutput(state.blackboard, step, result);
+                setStepStatus(plan, step, 'completed', result);
+                updateGraphHistory(`\n---✅ ${isMapStep(step) ? 'Map' : 'Sub-plan'} of step ${step.step_id} complete.`);
+                completed.push(step);
+                continue;
+            }
+            const failedSteps = subplan.plan.filter(s => s.status === 'failed');
+            if (failedSteps.length === 0 || subplan.plan.some(s => s.status === 'in-progress' || s.status === 'awaiting-approval')) continue;
+
+            const failure = failedSteps.map(s => `Step ${s.step_id} (${s.tool_to_use}) "${s.description}": ${(s.result || 'failed').substring(0, 500)}`).join('\n');
+            // Item steps already went through the retry policy; there is nothing to re-plan
+            if (isMapStep(step)) {
+                setStepStatus(plan, step, 'failed', `${failedSteps.length} of ${subplan.plan.length} item(s) failed:\n${failure}`);
+                updateGraphHistory(`\n---❌ Step ${step.step_id} failed: ${failedSteps.length} mapped item(s) failed.`);
+                continue;
+            }
+            const replans = step.subplanReplans ?? 0;
+            if (replans >= MAX_SUBPLAN_REPLANS) {
+                setStepStatus(plan, step, 'failed', `Sub-plan failed after ${replans} re-plan(s):\n${failure}`);
+                updateGraphHistory(`\n---❌ Step ${step.step_id} failed: its sub-plan could not be completed.`);
+                continue;
+            }
+            step.subplanReplans = replans + 1;
+            emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { subplanReplans: step.subplanReplans } });
+            updateGraphHistory(`\n---🔁 Re-planning the sub-plan of step ${step.step_id} (${step.subplanReplans}/${MAX_SUBPLAN_REPLANS}) after:\n${failure}`);
+            try {
+                await expandSubplan(step, plan, state, runtime, fileData, recordUsage, updateGraphHistory, failure);
+            } catch (e) {
+                // A cancelled run is picked up at the top of the graph loop
+                if (isAbortError(e)) return completed;
+                setStepStatus(plan, step, 'failed', `Sub-plan could not be re-planned: ${(e as Error).message}`);
+            }
+        }
+        return completed;
+    };
+
+    // Asks the Retry agent to rewrite a failed step's description. Keeps the old description if no rewrite comes back.
+    const refineStep = async (
+        step: PlanStep, plan: Plan, state: GraphState, runtime: GraphRuntime, failedOutput: string, critique: string,
+        recordUsage: (usage?: TokenUsage) => void, updateGraphHistory: (report: string) => void,
+    ) => {
+        const retryPrompt = `[Prompt]: ${step.description}\n(Overall goal: ${state.originalPrompt})\n[Failed Output]: ${failedOutput || 'N/A'}\n[Critique]: ${critique}`;
+        let newDescription = '';
+        const span = startSpan(runtime.trace, `refine step ${step.step_id}`, 'step', runtime.rootSpanId, { 'agentura.step_id': step.step_id });
+        try {
+            const retryResponse = await callAgent(retryPrompt, { task: TaskType.Retry, runtime, parentSpanId: span.spanId });
+            recordUsage(retryResponse.usage);
+            const apoCall = retryResponse.functionCalls?.find(fc => fc.name === APO_REFINE_TOOL.name);
+            if (apoCall) {
+                const refined = await runApoRefine({
+                    original_prompt: apoCall.args.original_prompt || step.description,
+                    failed_output: apoCall.args.failed_output || failedOutput,
+                    critique: apoCall.args.critique || critique,
+                }, runtime, span.spanId);
+                recordUsage(refined.usage);
+                newDescription = refined.newPrompt;
+            } else {
+                newDescription = retryResponse.content.trim();
+            }
+            endSpan(span, undefined, { 'agentura.rewritten': !!newDescription });
+        } catch (e) {
+            endSpan(span, e);
+            if (isAbortError(e)) throw e;
+            console.warn(`Retry agent could not refine step ${step.step_id}:`, e);
+        }
+        if (newDescription) {
+            step.description = newDescription;
+            emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { description: newDescription } });
+            updateGraphHistory(`🛠 Step ${step.step_id} rewritten by Retry agent: ${newDescription}`);
+        } else {
+            updateGraphHistory(`🛠 Step ${step.step_id} will be retried with its original description.`);
+        }
+    };
+
+    // Runs a step under STEP_RETRY_POLICY: each failure is backed off, rewritten by the Retry agent and re-run.
+    const executeStepWithRetry = async (
+        step: PlanStep, plan: Plan, state: GraphState, runtime: GraphRuntime, fileData: FileData | undefined,
+        recordUsage: (usage?: TokenUsage) => void, updateGraphHistory: (report: string) => void,
+    ) => {
+        // Plans are checked against the roster when made, but an edited or resumed plan may still name a disabled agent; retrying cannot fix that
+        if (!isAgentEnabled(rosterFor(state), step.tool_to_use)) {
+            const error = `Agent '${step.tool_to_use}' is not in this run's active roster.`;
+            recordStepAttempt(plan, step, { description: step.description, status: 'failed', error, startedAt: Date.now(), endedAt: Date.now() });
+            throw new Error(error);
+        }
+        while (true) {
+            const startedAt = Date.now();
+            const description = step.description;
+            const span = startSpan(runtime.trace, `step ${step.step_id}`, 'step', runtime.rootSpanId, {
+                'agentura.step_id': step.step_id,
+                'agentura.agent': step.tool_to_use,
+                'agentura.attempt': (step.attempts?.length ?? 0) + 1,
+            });
+            try {
+                await runScheduledAttempt(step, plan, state, runtime, fileData, span.spanId);
+                endSpan(span);
+                recordStepAttempt(plan, step, { description, status: 'completed', startedAt, endedAt: Date.now() });
+                return;
+            } catch (e) {
+                endSpan(span, e);
+                if (isAbortError(e)) throw e;
+                const errorMsg = (e as Error).message;
+                recordStepAttempt(plan, step, { description, status: 'failed', error: errorMsg, startedAt, endedAt: Date.now() });
+                if (!canRetryStep(step, state)) throw e;
+
+                const backoff = Math.min(STEP_RETRY_POLICY.baseDelayMs * 2 ** (step.attempts!.length - 1), STEP_RETRY_POLICY.maxDelayMs);
+                updateGraphHistory(`\n---↩ Step ${step.step_id} attempt ${step.attempts!.length}/${STEP_RETRY_POLICY.maxAttempts} failed: ${errorMsg}. Retrying in ${backoff / 1000}s...`);
+                await abortableDelay(backoff, runtime.controller.signal);
+                const failedOutput = step.result && step.result !== 'Executing...' ? step.result : '';
+                await refineStep(step, plan, state, runtime, failedOutput, errorMsg, recordUsage, updateGraphHistory);
+            }
+        }
+    };
+
+    // One attempt at a step, started when the scheduler frees a slot for the step's model; steps on the longest
+    // remaining chain go first. The attempt gets its own abort controller so a hung stream can be timed out.
+    const runScheduledAttempt = (step: PlanStep, plan: Plan, state: GraphState, runtime: GraphRuntime, fileData: FileData | undefined, spanId: string) => {
+        const { provider, model } = resolveAgentModel(AGENT_ROSTER[step.tool_to_use as TaskType], host.getSettings().providerSettings);
+        const setQueue = (queue: StepQueueState | null) => {
+            step.queue = queue ?? undefined;
+            emit({ type: 'step_patch', planId: plan.id, stepId: step.step_id, patch: { queue: queue ?? undefined } });
+        };
+        return stepScheduler.run(`${provider}:${model}`, getCriticalPathLength(plan.plan, step.step_id), async () => {
+            const { stepTimeoutMs } = host.getSettings().schedulerSettings;
+            const attempt = createAttemptController(runtime.controller.signal, stepTimeoutMs);
+            try {
+                await executeStep(step, plan, state, { ...runtime, controller: attempt.controller }, fileData, spanId);
+            } catch (e) {
+                if (attempt.hasTimedOut()) throw new Error(`Step timed out after ${Math.round(stepTimeoutMs / 1000)}s.`);
+                throw e;
+            } finally {
+                attempt.dispose();
+            }
+        }, { signal: runtime.controller.signal, onQueue: setQueue });
+    };
+
+    // Helper to execute a single step (used in parallel loop)
+    const executeStep = async (step: PlanStep, plan: Plan, state: GraphState, runtime: GraphRuntime, fileData: FileData | undefined, spanId: string) => {
+        const agentType = step.tool_to_use as TaskType;
+        setStepStatus(plan, step, 'in-progress', 'Executing...');
+
+        const planStateSummary = plan.plan.map(p => {
+            const isCurrent = p.step_id === step.step_id;
+            return `  - Step ${p.step_id} (${p.tool_to_use}): ${p.status}${isCurrent ? ' <-- YOUR CURRENT STEP' : ''}`;
+        }).join('\n');
+
+        const resolvedInputs = resolveStepInputs(step, state.blackboard);
+        const inputsSection = resolvedInputs.length > 0
+            ? resolvedInputs.map(({ key, value }) => `#### ${key}\n${value ?? '(not available: the producing step has not completed)'}`).join('\n\n')
+            : 'This step declares no inputs.';
+
+        const verificationSection = step.verification?.status === 'FAIL' ? `
+### PREVIOUS ATTEMPT FAILED VERIFICATION
+Your previous result for this step did not meet the acceptance criteria.
+- **Verifier reason:** ${step.verification.reason}
+Produce a new result that fixes this.
+` : '';
+
+        const agentPrompt = `
+You are an expert agent executing one step of a larger plan. Your response must be the direct output for YOUR CURRENT STEP only. Do not add conversational filler.
+
+### CONTEXT: OVERALL GOAL
+${state.originalPrompt}
+
+### CONTEXT: FULL PLAN STATE
+Here is the current status of all steps in the plan.
+${planStateSummary}
+
+### CONTEXT: INPUTS FROM UPSTREAM STEPS
+${inputsSection}
+
+### YOUR CURRENT TASK
+Your job is to execute the step marked "<-- YOUR CURRENT STEP".
+- **Description:** ${step.description}
+- **Acceptance Criteria:** ${step.acceptance_criteria || 'N/A'}
+${verificationSection}
+First, internally reflect on how your task contributes to the overall goal. Then, perform the action and provide only the result.
+`;
+        // Execute agent
+        const agentResponse = await callAgent(agentPrompt, {
+            task: agentType, file: fileData, runtime, parentSpanId: spanId,
+            onChunk: text => emit({ type: 'step_chunk', planId: plan.id, stepId: step.step_id, text }),
+        });
+        addTokenUsage(state.budgetUsage, agentResponse.usage);
+
+        // Publish to the blackboard rather than lastOutput, which parallel siblings would overwrite
+        publishStepOutput(state.blackboard, step, agentResponse.content);
+        setStepStatus(plan, step, 'completed', agentResponse.content);
+        
+        // Add to history for context
+        state.history.push({
+             id: `step-${step.step_id}-result`,
+             role: 'assistant',
+             content: `[Step ${step.step_id} Result]: ${agentResponse.content}`,
+             taskType: agentType
+        });
+    };
+
+
+    // --- Message-level commands: each answers into an assistant message and reports it through message_update ---
+
+    const updateMessage = (messageId: string, update: Partial<ChatMessage>) => emit({ type: 'message_update', messageId, update });
+
+    // Suggests follow-ups for the answer in `messageId`. Nothing waits on it; a failure just leaves no suggestions.
+    const generateFollowUps = async (messageId: string) => {
+        try {
+            const history = host.getConversation();
+            const prompt = `Based on the following conversation, suggest exactly 3 concise and relevant follow-up questions or actions a user might take next.
+            Prioritize actions that use agent commands like /research, /code, etc.
+            
+            CONVERSATION HISTORY (most recent messages):
+            ${history.slice(-4).map(m => `${m.role.toUpperCase()}: ${m.content.substring(0, 300)}`).join('\n---\n')}
+            `;
+
+            const schema = {
+                type: Type.OBJECT,
+                properties: {
+                    suggestions: {
+                        type: Type.ARRAY,
+                        description: "An array of exactly 3 string suggestions.",
+                        items: { type: Type.STRING }
+                    }
+                },
+                required: ['suggestions']
+            };
+
+            const { ai, model, provider } = getAgentClient(TaskType.Chat);
+            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+                model,
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                config: { responseMimeType: "application/json", responseSchema: schema }
+            }));
+            emit({ type: 'model_call', call: { taskType: TaskType.Chat, provider, model, messageId }, usage: toTokenUsage(response.usageMetadata) });
+            
+            let suggestions: string[] = [];
+            try {
+                const parsed = JSON.parse(response.text || '{}');
+                if (parsed.suggestions && Array.isArray(parsed.suggestions)) {
+                    suggestions = parsed.suggestions;
+                }
+            } catch (e) {
+                console.warn("Follow-up suggestion generation returned non-JSON.", e);
+            }
+
+            updateMessage(messageId, { followUpSuggestions: suggestions });
+
+        } catch (e) {
+            console.error("Failed to generate follow-up suggestions:", e);
+            // Set to empty array on failure so it doesn't show loading forever
+            updateMessage(messageId, { followUpSuggestions: [] });
+        }
+    };
+
+    // Runs a graph that owns an assistant message and writes the outcome back into it.
+    const runGraphForMessage = async (state: GraphState, trace?: ExecutionTrace) => {
+        try {
+            const finalOutput = await runGraph(state, trace);
+            if (state.error === RUN_CANCELLED_ERROR) {
+                updateMessage(state.id, { content: `**Execution cancelled by user.**`, isLoading: false, followUpSuggestions: [] });
+                return;
+            }
+            if (state.awaitingReview) {
+                updateMessage(state.id, { content: `**Plan ready for review.** Edit it or run it as it is.`, isLoading: false, followUpSuggestions: [] });
+                return;
+            }
+            let finalContent = (typeof finalOutput === 'string' || !finalOutput) ? (finalOutput || "Graph complete.") : JSON.stringify(finalOutput, null, 2);
+            if (state.error?.startsWith(BUDGET_EXHAUSTED_ERROR)) {
+                finalContent = `**Run halted (${state.error}).** Best partial result:\n\n${finalContent}`;
+            }
+            updateMessage(state.id, { content: finalContent, isLoading: false });
+            generateFollowUps(state.id);
+        } catch (e) {
+             const error = e as Error;
+            updateMessage(state.id, { content: `Graph execution failed: ${error.message}`, isLoading: false, followUpSuggestions: [] });
+        }
+    };
+
+    // A command-forced agent is honoured as is (the Planner always means the graph) unless the roster disables it;
+    // otherwise the Router's complexity score decides, and if the Router fails the graph is the safe default.
+    const decideRouting = async (userMsg: ChatMessage, messageId: string, trace: ExecutionTrace, forcedTask?: TaskType): Promise<RoutingDecision> => {
+        const { routerComplexityThreshold: threshold, activeRoster } = host.getSettings();
+        if (forcedTask && forcedTask !== TaskType.Planner && !isAgentEnabled(getEnabledAgents(activeRoster), forcedTask)) {
+            console.warn(`decideRouting: '${forcedTask}' is not in the active roster; asking the Router instead.`);
+        } else if (forcedTask) return { route: forcedTask, complexityScore: null, threshold, path: forcedTask === TaskType.Planner ? 'graph' : 'direct' };
+        try {
+            const { route, complexityScore } = await routeQuery(userMsg.content, trace, undefined, { messageId }, messageId);
+            const isSimple = complexityScore !== null && complexityScore <= threshold;
+            return { route, complexityScore, threshold, path: isSimple && route !== TaskType.Planner ? 'direct' : 'graph' };
+        } catch (e) {
+            console.warn('Router failed; running the full graph.', e);
+            return { route: TaskType.Planner, complexityScore: null, threshold, path: 'graph' };
+        }
+    };
+
+    // The routing front door: answers `userMsg` into the assistant message `messageId`, directly or through the graph
+    const answer = async (userMsg: ChatMessage, messageId: string, { forcedTask, routing }: AnswerOptions = {}) => {
+        const trace = createTrace();
+        routing ??= await decideRouting(userMsg, messageId, trace, forcedTask);
+        if (routing.path === 'direct') {
+            updateMessage(messageId, { routing, taskType: routing.route, trace: snapshotTrace(trace) });
+            try {
+                updateMessage(messageId, await callAgent(userMsg.content, { task: routing.route, file: userMsg.file, messageId, trace }));
+                generateFollowUps(messageId);
+            } catch (e) {
+                updateMessage(messageId, { isLoading: false, content: (e as Error).message, trace: snapshotTrace(trace) });
+            }
+            return;
+        }
+        updateMessage(messageId, { routing, taskType: TaskType.Supervisor, content: 'Supervisor: Initializing graph...', supervisorReport: 'Supervisor: Initializing graph...', trace: snapshotTrace(trace) });
+        const initialState: GraphState = { id: messageId, originalPrompt: userMsg.content, plan: null, history: [userMsg], lastOutput: null, nextAgent: TaskType.Planner, error: null, blackboard: {}, budget: { ...DEFAULT_RUN_BUDGET }, budgetUsage: createBudgetUsage(), roster: rosterFor() };
+        await runGraphForMessage(initialState, trace);
+    };
+
+    // Round Table debates in progress, keyed by the assistant message that hosts them; they are stopped together with the graphs
+    const activeDebates = new Map<string, AbortController>();
+
+    // One non-streaming call to an agent's model under a given system instruction, billed to `messageId`.
+    // Debaters answer in prose, so the agent's own tools and instruction are not used.
+    const callDebateModel = async (
+        agent: TaskType, systemInstruction: string, prompt: string, messageId: string,
+        trace: ExecutionTrace, parentSpanId: string, signal: AbortSignal, spanName: string,
+    ): Promise<string> => {
+        const { ai, model, provider } = getAgentClient(agent);
+        const span = startSpan(trace, spanName, 'llm', parentSpanId, { 'llm.provider': provider, 'llm.model': model, 'agentura.agent': agent, 'llm.prompt_hash': hashText(prompt), 'llm.system_instruction_hash': hashText(systemInstruction), 'llm.retries': 0 });
+        try {
+            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+                model,
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                config: { systemInstruction: { parts: [{ text: systemInstruction }] }, abortSignal: signal },
+            }), 3, 1000, 2, () => { span.attributes['llm.retries'] = Number(span.attributes['llm.retries']) + 1; });
+            const usage = toTokenUsage(response.usageMetadata);
+            emit({ type: 'model_call', call: { messageId, taskType: agent, provider, model }, usage });
+            endSpan(span, undefined, usageAttributes(usage));
+            const text = response.text?.trim();
+            if (!text) throw new Error(`${agent} returned an empty answer.`);
+            return text;
+        } catch (e) {
+            endSpan(span, e);
+            throw e;
+        }
+    };
+
+    // The Round Table: every participant proposes an answer, then each round they critique the others'
+    // latest answers and revise their own. The Moderator synthesizes the final answer from the transcript.
+    const runRoundTable = async (topic: string, messageId: string) => {
+        const settings = clampRoundTableSettings(host.getSettings().roundTableSettings);
+        const controller = new AbortController();
+        activeDebates.set(messageId, controller);
+        emit({ type: 'run_started', runId: messageId });
+        const trace = createTrace();
+        const rootSpan = startSpan(trace, 'round table', 'run', undefined, { 'agentura.prompt_hash': hashText(topic), 'agentura.participants': settings.participants, 'agentura.rounds': settings.rounds });
+        const debate: DebateTranscript = createDebateTranscript(topic, settings);
+        // Rounds are replaced rather than mutated so subscribers always see new objects
+        const publish = () => updateMessage(messageId, { debate: { ...debate, rounds: [...debate.rounds] }, trace: snapshotTrace(trace) });
+
+        const runRound = async (round: number, buildPrompt: (persona: RoundTablePersona) => string) => {
+            const current: DebateRound = {
+                round,
+                kind: round === 1 ? 'proposal' : 'critique',
+                turns: debate.participants.map(p => ({ persona: p.name, agent: p.agent, content: '', status: 'pending' })),
+            };
+            debate.rounds.push(current);
+            publish();
+            const roundSpan = startSpan(trace, `round ${round}`, 'step', rootSpan.spanId, { 'agentura.round': round });
+            await Promise.all(debate.participants.map(async (persona, i) => {
+                const prompt = buildPrompt(persona);
+                let turn;
+                try {
+                    turn = { ...current.turns[i], content: await callDebateModel(persona.agent, persona.instruction, prompt, messageId, trace, roundSpan.spanId, controller.signal, `llm ${persona.name}`), status: 'done' as const };
+                } catch (e) {
+                    if (isAbortError(e)) throw e;
+                    turn = { ...current.turns[i], content: (e as Error).message, status: 'failed' as const };
+                }
+                current.turns = current.turns.map((t, j) => j === i ? turn : t);
+                debate.rounds = debate.rounds.map(r => r.round === round ? { ...current } : r);
+                publish();
+            }));
+            endSpan(roundSpan);
+            if (!current.turns.some(t => t.status === 'done')) throw new Error(`Every participant failed in round ${round}.`);
+        };
+
+        try {
+            await runRound(1, () => buildProposalPrompt(topic));
+            for (let round = 2; round <= debate.totalRounds; round++) {
+                await runRound(round, persona => buildCritiquePrompt(debate, persona, round));
+            }
+            debate.synthesis = await callDebateModel(TaskType.Chat, ROUND_TABLE_MODERATOR_INSTRUCTION, buildModeratorPrompt(debate), messageId, trace, rootSpan.spanId, controller.signal, 'llm Moderator');
+            debate.status = 'completed';
+            endSpan(rootSpan);
+            publish();
+            updateMessage(messageId, { content: debate.synthesis, isLoading: false });
+            generateFollowUps(messageId);
+        } catch (e) {
+            const cancelled = isAbortError(e);
+            debate.status = cancelled ? 'cancelled' : 'failed';
+            endOpenSpans(trace, 'Debate ended before the span closed.');
+            endSpan(rootSpan, cancelled ? undefined : e);
+            publish();
+            updateMessage(messageId, { content: cancelled ? '**Debate cancelled by user.**' : `Round Table debate failed: ${(e as Error).message}`, isLoading: false, followUpSuggestions: [] });
+        } finally {
+            activeDebates.delete(messageId);
+            emit({ type: 'run_finished', runId: messageId, trace: snapshotTrace(trace) });
+        }
+    };
+
+    // Streams the Code agent's next reply into `messageId`, once the host has added the result of the code it asked to run
+    const continueCodeAgent = async (messageId: string) => {
+        const chat = getChat(TaskType.Code, host.getConversation());
+        try {
+            const stream = await withRetry<AsyncGenerator<GenerateContentResponse>>(() => chat.sendMessageStream({ message: { role: 'user', parts: [{ text: "The code has been executed. Analyze the result and continue." }] } }));
+            const { fullText, sources, functionCalls, usage } = await processStream(stream, messageId);
+            emit({ type: 'model_call', call: { ...resolveAgentModel(AGENT_ROSTER[TaskType.Code], host.getSettings().providerSettings), taskType: TaskType.Code, messageId }, usage });
+            updateMessage(messageId, { content: fullText, isLoading: false, sources, functionCalls });
+        } catch (e) {
+            updateMessage(messageId, { isLoading: false, content: formatApiError(e, "Code Agent (Continuation)") });
+        }
+    };
+
+    return {
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        runGraph,
+        callAgent,
+        answer,
+        runGraphForMessage,
+        runRoundTable,
+        continueCodeAgent,
+        resolveApproval: (planId, stepId, decision) => {
+            const resolve = pendingApprovals.get(`${planId}:${stepId}`);
+            if (!resolve) return false;
+            resolve(decision);
+            return true;
+        },
+        setApprovalGate: (planId, stepId, requiresApproval) => {
+            // A running graph reads its own copy of the plan
+            const liveStep = findPlanStep(findLivePlan(planId)?.plan || [], stepId);
+            if (liveStep) {
+                liveStep.requires_approval = requiresApproval;
+                liveStep.approved = false;
+            }
+            if (!requiresApproval) pendingApprovals.get(`${planId}:${stepId}`)?.({ action: 'approve' });
+        },
+        stopAll: () => {
+            activeRuntimes.forEach(runtime => runtime.controller.abort());
+            activeDebates.forEach(controller => controller.abort());
+        },
+        activeRunCount: () => activeRuntimes.size + activeDebates.size,
+        isRunActive: (runId) => activeRuntimes.has(runId),
+    };
+};
@@ -0,0 +1,54 @@
+import { GraphState, PipelineDefinition, PipelineStep, PipelineSupervisorTask, TaskType } from '../types';
+import { SOTA_SECURITY_PIPELINE } from '../constants';
+import { flattenPlanSteps } from './planUtils';
+
+const PIPELINES: Record<string, PipelineDefinition> = {
+    [SOTA_SECURITY_PIPELINE.id]: SOTA_SECURITY_PIPELINE,
+};
+
+export const getPipeline = (id: string): PipelineDefinition => {
+    const pipeline = PIPELINES[id];
+    if (!pipeline) throw new Error(`Unknown pipeline '${id}'.`);
+    return pipeline;
+};
+
+export const isSupervisorTask = (step: PipelineStep | undefined, task: PipelineSupervisorTask): boolean =>
+    step?.agent === TaskType.Supervisor && step.task === task;
+
+const stringifyOutput = (output: unknown): string =>
+    typeof output === 'string' ? output : output === undefined || output === null ? '' : JSON.stringify(output, null, 2);
+
+// Fills {{name}} placeholders; unknown names are left in place so a typo in a pipeline is visible in the prompt
+export const renderPipelineTemplate = (template: string, variables: Record<string, string>): string =>
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => variables[name] ?? match);
+
+export const getPipelineVariables = (state: GraphState): Record<string, string> => ({
+    user_prompt: state.originalPrompt,
+    final_output: stringifyOutput(state.pipeline?.finalOutput),
+});
+
+// The rendered task of the current pipeline step, if that step is a prompt for `agent`
+export const getPipelineTask = (state: GraphState, agent: TaskType): string | undefined => {
+    if (!state.pipeline) return undefined;
+    const step = getPipeline(state.pipeline.id).steps[state.pipeline.stepIndex];
+    if (!step || step.agent !== agent || agent === TaskType.Supervisor) return undefined;
+    return renderPipelineTemplate(step.task, getPipelineVariables(state));
+};
+
+export const buildSupervisorReport = (state: GraphState): string => {
+    const pipeline = getPipeline(state.pipeline!.id);
+    const steps = flattenPlanSteps(state.plan?.plan || []).filter(s => !s.subplan);
+    const completed = steps.filter(s => s.status === 'completed').length;
+    const failed = steps.filter(s => s.status === 'failed');
+    const critique = state.lastOutput as { critique?: string; scores?: { faithfulness: number; coherence: number; coverage: number } } | null;
+    const lines = [
+        `### Supervisor report: ${pipeline.title}`,
+        `- Plan: ${completed}/${steps.length} step(s) completed${failed.length > 0 ? `, ${failed.length} failed (${failed.map(s => `step ${s.step_id}`).join(', ')})` : ''}.`,
+    ];
+    if (critique?.scores) {
+        lines.push(`- Critique scores: faithfulness ${critique.scores.faithfulness}, coherence ${critique.scores.coherence}, coverage ${critique.scores.coverage}.`);
+    }
+    if (critique?.critique) lines.push(`- Critique: ${critique.critique}`);
+    if (state.failedCritique) lines.push(`- ⚠️ The final output did not pass critique.`);
+    return lines.join('\n');
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { PlanStep, StepCondition, TaskType } from '../types';
+import { evaluateCondition, expandMapStep, getConditionSkipReason } from './planUtils';
+
+const step = (step_id: number, dependencies: number[] = [], patch: Partial<PlanStep> = {}): PlanStep =>
+    ({ step_id, description: `Step ${step_id}`, tool_to_use: TaskType.Research, acceptance_criteria: '', status: 'pending', dependencies, ...patch });
+
+describe('evaluateCondition', () => {
+    const check = (operator: StepCondition['operator'], upstreamResult: string, value?: string) =>
+        evaluateCondition({ step_id: 1, operator, value }, upstreamResult);
+
+    it('matches keywords case-insensitively', () => {
+        expect(check('contains', 'Found 3 Critical issues.', 'critical')).toBe(true);
+        expect(check('contains', 'All clear.', 'critical')).toBe(false);
+        expect(check('not_contains', 'All clear.', 'critical')).toBe(true);
+        expect(check('not_contains', 'One CRITICAL issue.', 'critical')).toBe(false);
+    });
+
+    it('compares the first number in the result with the threshold', () => {
+        expect(check('greater_than', 'Revenue grew to 1,250 units, up from 900.', '1000')).toBe(true);
+        expect(check('less_than', 'Score: -2.5', '0')).toBe(true);
+        expect(check('greater_than', 'No figures available.', '0')).toBe(false);
+        expect(check('less_than', 'No figures available.', '0')).toBe(false);
+    });
+
+    it('reads a leading yes or no', () => {
+        expect(check('is_yes', '**Yes** - the vendor qualifies.')).toBe(true);
+        expect(check('is_yes', 'Not yet; yes once signed.')).toBe(false);
+        expect(check('is_no', 'No.')).toBe(true);
+        expect(check('is_no', 'Nothing found.')).toBe(false);
+    });
+});
+
+describe('getConditionSkipReason', () => {
+    const notContains = (stepId: number): Partial<PlanStep> => ({ condition: { step_id: stepId, operator: 'not_contains', value: 'error' } });
+
+    it('runs a step without a condition or whose condition holds', () => {
+        const steps = [step(1, [], { status: 'completed', result: 'All good.' }), step(2, [1], notContains(1)), step(3, [1])];
+        expect(getConditionSkipReason(steps[1], steps, { step_1: 'All good.' })).toBeNull();
+        expect(getConditionSkipReason(steps[2], steps, { step_1: 'All good.' })).toBeNull();
+    });
+
+    it('skips a step whose condition does not hold', () => {
+        const steps = [step(1, [], { status: 'completed' }), step(2, [1], notContains(1))];
+        expect(getConditionSkipReason(steps[1], steps, { step_1: 'An error occurred.' })).toBe('the condition "step 1 does not contain "error"" did not hold');
+    });
+
+    it('skips a step testing a step that did not complete, even when the condition would hold on no result', () => {
+        const steps = [step(1, [], { status: 'skipped' }), step(2, [1], notContains(1)), step(3, [2], notContains(2))];
+        expect(getConditionSkipReason(steps[1], steps, {})).toMatch(/^step 1 did not complete/);
+
+        // The skip carries on down the chain of conditions
+        steps[1].status = 'skipped';
+        expect(getConditionSkipReason(steps[2], steps, {})).toMatch(/^step 2 did not complete/);
+    });
+});
+
+describe('expandMapStep', () => {
+    it('makes one independent step per item, with the item in its description and a numbered output key', () => {
+        const mapStep = step(4, [3], { kind: 'map', map_over: 'vendors', inputs: ['vendors', 'criteria'], output_key: 'assessments', description: 'Assess {item} against the criteria.' });
+        const steps = expandMapStep(mapStep, ['Acme', 'Globex'], 10);
+
+        expect(steps.map(s => [s.step_id, s.description, s.output_key, s.map_item])).toEqual([
+            [10, 'Assess Acme against the criteria.', 'assessments.1', 'Acme'],
+            [11, 'Assess Globex against the criteria.', 'assessments.2', 'Globex'],
+        ]);
+        steps.forEach(s => {
+            expect(s).toMatchObject({ status: 'pending', dependencies: [], inputs: ['criteria'], tool_to_use: TaskType.Research });
+            expect(s.kind).toBeUndefined();
+        });
+    });
+
+    it('appends the item when the description has no placeholder, keyed under the step id without an output key', () => {
+        const [only] = expandMapStep(step(2, [1], { kind: 'map', map_over: 'step_1' }), ['Berlin'], 5);
+        expect(only.description).toBe('Step 2\n\nItem: Berlin');
+        expect(only.output_key).toBe('step_2.1');
+    });
+
+    it('makes no steps for an empty list', () => {
+        expect(expandMapStep(step(2, [1], { kind: 'map', map_over: 'step_1' }), [], 5)).toEqual([]);
+    });
+});
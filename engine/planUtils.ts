@@ -0,0 +1,322 @@
+import { Plan, PlanStep, PlanStepDiff, PlanValidationError, StepCondition } from '../types';
+
+// Every step is published under `step_<id>`, plus its declared output_key if it has one,
+// so downstream steps can reference upstream results either way.
+export const getStepFallbackKey = (step: PlanStep): string => `step_${step.step_id}`;
+
+export const getStepOutputKey = (step: PlanStep): string => step.output_key?.trim() || getStepFallbackKey(step);
+
+export const publishStepOutput = (blackboard: Record<string, string>, step: PlanStep, output: string) => {
+    blackboard[getStepFallbackKey(step)] = output;
+    blackboard[getStepOutputKey(step)] = output;
+};
+
+export const resolveStepInputs = (step: PlanStep, blackboard: Record<string, string>): { key: string; value: string | undefined }[] =>
+    (step.inputs || []).map(key => ({ key, value: blackboard[key.trim()] }));
+
+// Rebuilds the blackboard from a plan whose steps already carry results (e.g. a plan re-executed from the UI).
+export const seedBlackboard = (plan: Plan | null): Record<string, string> => {
+    const blackboard: Record<string, string> = {};
+    plan?.plan.filter(s => s.status === 'completed' && s.result !== undefined).forEach(s => publishStepOutput(blackboard, s, s.result!));
+    return blackboard;
+};
+
+// The plan's output is the result of its completed sink steps (steps nothing else depends on).
+// A single sink yields its raw result; several sinks yield an object keyed by output_key.
+export const collectPlanOutput = (plan: Plan, blackboard: Record<string, string>): string | Record<string, string> | null => {
+    const dependedOn = new Set(plan.plan.flatMap(s => s.dependencies || []));
+    const sinks = plan.plan.filter(s => !dependedOn.has(s.step_id) && s.status === 'completed');
+    if (sinks.length === 0) return null;
+    const outputOf = (s: PlanStep) => blackboard[getStepOutputKey(s)] ?? s.result ?? '';
+    if (sinks.length === 1) return outputOf(sinks[0]);
+    return Object.fromEntries(sinks.map(s => [getStepOutputKey(s), outputOf(s)]));
+};
+
+// The graph mutates its own copy of the plan; the store gets a separate copy so the two never share step objects.
+export const clonePlan = (plan: Plan): Plan => ({
+    ...plan,
+    plan: plan.plan.map(s => ({ ...s, dependencies: [...(s.dependencies || [])], ...(s.subplan && { subplan: clonePlan(s.subplan) }) })),
+});
+
+// --- Sub-plans ---
+
+export const isSubplanStep = (step: PlanStep): boolean => step.kind === 'subplan';
+
+// Every step in the tree, parents before their sub-plan steps
+export const flattenPlanSteps = (steps: PlanStep[]): PlanStep[] =>
+    steps.flatMap(s => [s, ...(s.subplan ? flattenPlanSteps(s.subplan.plan) : [])]);
+
+export const findPlanStep = (steps: PlanStep[], stepId: number): PlanStep | undefined =>
+    flattenPlanSteps(steps).find(s => s.step_id === stepId);
+
+// Immutable update of one step anywhere in the tree
+export const mapPlanStep = (steps: PlanStep[], stepId: number, update: (step: PlanStep) => PlanStep): PlanStep[] =>
+    steps.map(s => s.step_id === stepId ? update(s)
+        : s.subplan ? { ...s, subplan: { ...s.subplan, plan: mapPlanStep(s.subplan.plan, stepId, update) } }
+        : s);
+
+// A skipped step counts as done for its dependents, so a branch not taken does not block the join after it
+export const isStepSettled = (step: PlanStep): boolean => step.status === 'completed' || step.status === 'skipped';
+
+// Steps that can start now, each with the (sub-)plan that owns it. An expanded sub-plan or map step
+// stays in progress while its own steps are scheduled alongside the rest of the plan.
+export const collectRunnableSteps = (plan: Plan): { plan: Plan; step: PlanStep }[] => {
+    const completedStepIds = new Set(plan.plan.filter(isStepSettled).map(s => s.step_id));
+    return plan.plan.flatMap(step => {
+        if (step.status === 'pending' && (step.dependencies || []).every(depId => completedStepIds.has(depId))) return [{ plan, step }];
+        if (step.status === 'in-progress' && step.subplan) return collectRunnableSteps(step.subplan);
+        return [];
+    });
+};
+
+// The longest chain of steps in `steps` that waits on `stepId`, the step itself included. The scheduler starts
+// steps on longer chains first, since they bound how soon the plan can finish.
+export const getCriticalPathLength = (steps: PlanStep[], stepId: number): number => {
+    const lengths = new Map<number, number>();
+    const visit = (id: number): number => {
+        if (!lengths.has(id)) {
+            const dependents = steps.filter(s => (s.dependencies || []).includes(id));
+            lengths.set(id, 1 + Math.max(0, ...dependents.map(s => visit(s.step_id))));
+        }
+        return lengths.get(id)!;
+    };
+    return visit(stepId);
+};
+
+// Gives Planner output for a sub-plan ids that are unique in the whole tree, and namespaces its
+// output keys under the parent's, so sub-plan results never overwrite keys of the enclosing plan.
+export const scopeSubplanSteps = (steps: PlanStep[], firstId: number, keyPrefix: string): PlanStep[] => {
+    const newIds = new Map(steps.map((s, i) => [s.step_id, firstId + i]));
+    const newKeys = new Map(steps.filter(s => s.output_key?.trim()).map(s => [s.output_key!.trim(), `${keyPrefix}.${s.output_key!.trim()}`]));
+    const remapInput = (key: string) => newKeys.get(key.trim())
+        ?? key.replace(/^step_(\d+)$/, (match, id) => newIds.has(Number(id)) ? `step_${newIds.get(Number(id))}` : match);
+    return steps.map(s => ({
+        ...s,
+        step_id: newIds.get(s.step_id)!,
+        dependencies: (s.dependencies || []).filter(depId => newIds.has(depId)).map(depId => newIds.get(depId)!),
+        ...(s.inputs && { inputs: s.inputs.map(remapInput) }),
+        ...(s.output_key?.trim() && { output_key: newKeys.get(s.output_key.trim()) }),
+        ...(s.map_over && { map_over: remapInput(s.map_over) }),
+        ...(s.condition && newIds.has(s.condition.step_id) && { condition: { ...s.condition, step_id: newIds.get(s.condition.step_id)! } }),
+    }));
+};
+
+// --- Conditions and map steps ---
+
+const CONDITION_OPERATORS: StepCondition['operator'][] = ['contains', 'not_contains', 'greater_than', 'less_than', 'is_yes', 'is_no'];
+
+const firstNumber = (text: string): number | null => {
+    const match = text.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : null;
+};
+
+// Deterministic on purpose: the same upstream result always takes the same branch, so a rerun is reproducible
+export const evaluateCondition = (condition: StepCondition, upstreamResult: string): boolean => {
+    const text = upstreamResult.trim().toLowerCase();
+    const value = (condition.value ?? '').trim().toLowerCase();
+    switch (condition.operator) {
+        case 'contains': return text.includes(value);
+        case 'not_contains': return !text.includes(value);
+        case 'greater_than':
+        case 'less_than': {
+            const n = firstNumber(text), threshold = Number(value);
+            if (n === null || Number.isNaN(threshold)) return false;
+            return condition.operator === 'greater_than' ? n > threshold : n < threshold;
+        }
+        case 'is_yes': return /^\W*yes\b/.test(text);
+        case 'is_no': return /^\W*no\b/.test(text);
+        default: return false;
+    }
+};
+
+// Why a step with a condition should be skipped, or null if it should run. A condition can only be checked
+// against a completed step: when the step it tests was skipped, it is skipped too, so the skip carries on down
+// a chain of conditions instead of a missing result passing for an empty one.
+export const getConditionSkipReason = (step: PlanStep, steps: PlanStep[], blackboard: Record<string, string>): string | null => {
+    if (!step.condition) return null;
+    const upstream = findPlanStep(steps, step.condition.step_id);
+    if (upstream?.status !== 'completed') return `step ${step.condition.step_id} did not complete, so "${describeCondition(step.condition)}" cannot be checked`;
+    return evaluateCondition(step.condition, blackboard[getStepFallbackKey(upstream)] ?? upstream.result ?? '') ? null : `the condition "${describeCondition(step.condition)}" did not hold`;
+};
+
+export const describeCondition = (condition: StepCondition): string => {
+    const subject = `step ${condition.step_id}`;
+    switch (condition.operator) {
+        case 'contains': return `${subject} contains "${condition.value ?? ''}"`;
+        case 'not_contains': return `${subject} does not contain "${condition.value ?? ''}"`;
+        case 'greater_than': return `${subject} > ${condition.value ?? '?'}`;
+        case 'less_than': return `${subject} < ${condition.value ?? '?'}`;
+        case 'is_yes': return `${subject} is yes`;
+        case 'is_no': return `${subject} is no`;
+        default: return subject;
+    }
+};
+
+export const isMapStep = (step: PlanStep): boolean => step.kind === 'map';
+
+// Reads the list a map step fans out over: a JSON array if the result is one (possibly fenced),
+// otherwise one item per bulleted, numbered or plain non-empty line.
+export const parseListItems = (text: string): string[] => {
+    const unfenced = text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+    try {
+        const parsed = JSON.parse(unfenced);
+        if (Array.isArray(parsed)) return parsed.map(item => typeof item === 'string' ? item : JSON.stringify(item)).filter(item => item.trim());
+    } catch {
+        // Not JSON; fall through to line parsing
+    }
+    return unfenced.split('\n')
+        .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+        .filter(line => line && !line.endsWith(':'));
+};
+
+// One step per item, running the map step's agent with {item} filled in. Ids continue from `firstId`
+// and output keys are numbered under the map step's, e.g. `vendors.1`, `vendors.2`.
+export const expandMapStep = (step: PlanStep, items: string[], firstId: number): PlanStep[] => {
+    const keyPrefix = getStepOutputKey(step);
+    return items.map((item, i) => ({
+        step_id: firstId + i,
+        description: step.description.includes('{item}') ? step.description.split('{item}').join(item) : `${step.description}\n\nItem: ${item}`,
+        tool_to_use: step.tool_to_use,
+        acceptance_criteria: step.acceptance_criteria,
+        status: 'pending',
+        dependencies: [],
+        inputs: (step.inputs || []).filter(key => key.trim() !== step.map_over?.trim()),
+        output_key: `${keyPrefix}.${i + 1}`,
+        map_item: item,
+    }));
+};
+
+// --- Static DAG validation (runs before anything executes) ---
+
+// Sub-plan steps are only allowed where `allowSubplans` is set (top-level plans); they name the Planner, not an executable agent.
+export const validatePlan = (steps: PlanStep[], allowedAgents: readonly string[], allowSubplans: boolean = false): PlanValidationError[] => {
+    if (steps.length === 0) return [{ code: 'empty_plan', message: 'The plan contains no steps.' }];
+
+    const errors: PlanValidationError[] = [];
+    const ids = new Set<number>();
+    steps.forEach(step => {
+        if (ids.has(step.step_id)) {
+            errors.push({ code: 'duplicate_step_id', step_id: step.step_id, message: `Step id ${step.step_id} is used by more than one step.` });
+        }
+        ids.add(step.step_id);
+        if (isSubplanStep(step)) {
+            if (!allowSubplans) errors.push({ code: 'nested_subplan', step_id: step.step_id, message: `Step ${step.step_id} is a sub-plan step, but sub-plans cannot contain sub-plans. Make it a regular agent step.` });
+        } else if (!allowedAgents.includes(step.tool_to_use)) {
+            errors.push({ code: 'disallowed_agent', step_id: step.step_id, message: `Step ${step.step_id} uses '${step.tool_to_use}', which is not an executable agent. Use one of: ${allowedAgents.join(', ')}.` });
+        }
+    });
+
+    const byId = new Map(steps.map(s => [s.step_id, s]));
+    steps.forEach(step => {
+        const deps = step.dependencies || [];
+        const { condition } = step;
+        if (condition) {
+            if (!deps.includes(condition.step_id)) {
+                errors.push({ code: 'invalid_condition', step_id: step.step_id, message: `Step ${step.step_id} has a condition on step ${condition.step_id}, which is not one of its dependencies.` });
+            } else if (!CONDITION_OPERATORS.includes(condition.operator)) {
+                errors.push({ code: 'invalid_condition', step_id: step.step_id, message: `Step ${step.step_id} uses the unknown condition operator '${condition.operator}'. Use one of: ${CONDITION_OPERATORS.join(', ')}.` });
+            } else if ((condition.operator === 'greater_than' || condition.operator === 'less_than') && Number.isNaN(Number(condition.value))) {
+                errors.push({ code: 'invalid_condition', step_id: step.step_id, message: `Step ${step.step_id} compares with '${condition.value ?? ''}', which is not a number.` });
+            } else if ((condition.operator === 'contains' || condition.operator === 'not_contains') && !condition.value?.trim()) {
+                errors.push({ code: 'invalid_condition', step_id: step.step_id, message: `Step ${step.step_id} has a '${condition.operator}' condition without a value to look for.` });
+            }
+        }
+        if (isMapStep(step)) {
+            const producers = deps.map(depId => byId.get(depId)).filter((s): s is PlanStep => !!s);
+            const key = step.map_over?.trim();
+            if (!key) {
+                errors.push({ code: 'invalid_map', step_id: step.step_id, message: `Step ${step.step_id} is a map step without map_over.` });
+            } else if (!producers.some(p => getStepOutputKey(p) === key || getStepFallbackKey(p) === key)) {
+                errors.push({ code: 'invalid_map', step_id: step.step_id, message: `Step ${step.step_id} maps over '${key}', which none of its dependencies produce.` });
+            }
+        }
+    });
+
+    const dangling = new Set<number>();
+    steps.forEach(step => (step.dependencies || []).filter(depId => !ids.has(depId)).forEach(depId => {
+        dangling.add(step.step_id);
+        errors.push({ code: 'dangling_dependency', step_id: step.step_id, message: `Step ${step.step_id} depends on step ${depId}, which does not exist.` });
+    }));
+
+    // Depth-first search over known edges; every back edge closes a cycle.
+    const dependenciesOf = new Map<number, number[]>();
+    steps.forEach(step => dependenciesOf.set(step.step_id, [...(dependenciesOf.get(step.step_id) || []), ...(step.dependencies || []).filter(depId => ids.has(depId))]));
+    const visitState = new Map<number, 'visiting' | 'done'>();
+    const inCycle = new Set<number>();
+    const visit = (id: number, path: number[]) => {
+        visitState.set(id, 'visiting');
+        for (const depId of dependenciesOf.get(id) || []) {
+            if (visitState.get(depId) === 'visiting') {
+                const cycle = [...path.slice(path.indexOf(depId)), depId];
+                cycle.forEach(c => inCycle.add(c));
+                errors.push({ code: 'cycle', step_id: depId, message: `Dependency cycle: ${cycle.join(' → ')}.` });
+            } else if (!visitState.has(depId)) {
+                visit(depId, [...path, depId]);
+            }
+        }
+        visitState.set(id, 'done');
+    };
+    [...ids].forEach(id => { if (!visitState.has(id)) visit(id, [id]); });
+
+    // Simulate the scheduler: a step is reachable once all of its dependencies are.
+    const reachable = new Set<number>();
+    let progressed = true;
+    while (progressed) {
+        progressed = false;
+        steps.forEach(step => {
+            if (reachable.has(step.step_id) || dangling.has(step.step_id)) return;
+            if ((step.dependencies || []).every(depId => reachable.has(depId))) {
+                reachable.add(step.step_id);
+                progressed = true;
+            }
+        });
+    }
+    steps.filter(step => !reachable.has(step.step_id) && !inCycle.has(step.step_id) && !dangling.has(step.step_id)).forEach(step => {
+        errors.push({ code: 'unreachable_step', step_id: step.step_id, message: `Step ${step.step_id} can never run because one of its upstream steps can never run.` });
+    });
+
+    return errors;
+};
+
+export const formatValidationErrors = (errors: PlanValidationError[]): string =>
+    errors.map(e => `- [${e.code}] ${e.message}`).join('\n');
+
+// --- Editing ---
+
+// Renumbers steps 1..n in their current order, rewriting dependencies, conditions and `step_<id>` input
+// references to match, so a hand-edited plan reads in order and the scheduler's tie-break follows it.
+export const renumberPlanSteps = (steps: PlanStep[]): PlanStep[] => {
+    const newIds = new Map(steps.map((s, i) => [s.step_id, i + 1]));
+    const remapInput = (key: string) => key.replace(/^step_(\d+)$/, (match, id) => newIds.has(Number(id)) ? `step_${newIds.get(Number(id))}` : match);
+    return steps.map((s, i) => ({
+        ...s,
+        step_id: i + 1,
+        dependencies: (s.dependencies || []).filter(depId => newIds.has(depId)).map(depId => newIds.get(depId)!),
+        ...(s.inputs && { inputs: s.inputs.map(remapInput) }),
+        ...(s.map_over && { map_over: remapInput(s.map_over) }),
+        ...(s.condition && newIds.has(s.condition.step_id) && { condition: { ...s.condition, step_id: newIds.get(s.condition.step_id)! } }),
+    }));
+};
+
+// --- Revisions ---
+
+const DIFFED_FIELDS: PlanStepDiff['changedFields'] = ['description', 'tool_to_use', 'acceptance_criteria', 'requires_approval'];
+
+// Steps are matched by step_id. Execution state (status, results) is not part of the comparison.
+export const diffPlans = (before: PlanStep[], after: PlanStep[]): PlanStepDiff[] => {
+    const beforeById = new Map(before.map(s => [s.step_id, s]));
+    const afterById = new Map(after.map(s => [s.step_id, s]));
+    const ids = Array.from(new Set([...beforeById.keys(), ...afterById.keys()])).sort((a, b) => a - b);
+    return ids.map((step_id): PlanStepDiff => {
+        const b = beforeById.get(step_id), a = afterById.get(step_id);
+        const beforeDeps = b?.dependencies || [], afterDeps = a?.dependencies || [];
+        const changedFields = b && a ? DIFFED_FIELDS.filter(f => (b[f] ?? '') !== (a[f] ?? '')) : [];
+        const addedDependencies = b && a ? afterDeps.filter(d => !beforeDeps.includes(d)) : [];
+        const removedDependencies = b && a ? beforeDeps.filter(d => !afterDeps.includes(d)) : [];
+        const change = !b ? 'added' : !a ? 'removed'
+            : changedFields.length > 0 || addedDependencies.length > 0 || removedDependencies.length > 0 ? 'changed' : 'unchanged';
+        return { step_id, change, before: b, after: a, changedFields, addedDependencies, removedDependencies };
+    });
+};
+
+export const hasPlanChanges = (diff: PlanStepDiff[]): boolean => diff.some(d => d.change !== 'unchanged');
@@ -0,0 +1,16 @@
+import { CreateChatParameters, GenerateContentParameters, GenerateContentResponse, SendMessageParameters } from '@google/genai';
+
+// The slice of the GoogleGenAI client the app actually uses. Anything that implements it
+// (the real SDK, a recording wrapper, a replayer) can stand in for the model.
+export interface AiChat {
+    sendMessageStream(params: SendMessageParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+}
+
+export interface AiClient {
+    models: {
+        generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+    };
+    chats: {
+        create(params: CreateChatParameters): AiChat;
+    };
+}
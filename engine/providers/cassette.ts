@@ -0,0 +1,137 @@
+import { GenerateContentResponse } from '@google/genai';
+import { AiChat, AiClient } from './aiClient';
+import { isAbortError } from '../helpers';
+import { hashText } from '../tracing';
+
+// A cassette is a recording of every model call in a session. Replaying it serves the same
+// responses back in the same order, so a run can be re-executed offline and deterministically.
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+type CassetteCallKind = 'generateContent' | 'sendMessageStream';
+
+export interface CassetteEntry {
+    kind: CassetteCallKind;
+    model: string;
+    requestHash: string;
+    request: unknown; // The request as sent, minus anything that does not serialize (e.g. abortSignal)
+    chunks: unknown[]; // Raw responses; a single entry for generateContent, every streamed chunk otherwise
+    error?: string; // Set when the call failed; replay rethrows it after the recorded chunks
+}
+
+export interface Cassette {
+    version: 1;
+    recordedAt: number;
+    entries: CassetteEntry[];
+}
+
+export const createCassette = (): Cassette => ({ version: 1, recordedAt: Date.now(), entries: [] });
+
+export const parseCassette = (json: string): Cassette => {
+    const parsed = JSON.parse(json);
+    if (parsed?.version !== 1 || !Array.isArray(parsed.entries)) throw new Error('Not a valid cassette file.');
+    return parsed as Cassette;
+};
+
+const toPlain = (value: unknown): unknown =>
+    value === undefined ? undefined : JSON.parse(JSON.stringify(value, (key, v) => key === 'abortSignal' ? undefined : v));
+
+const toResponse = (raw: unknown): GenerateContentResponse => Object.assign(new GenerateContentResponse(), raw);
+
+const errorMessage = (e: unknown) => (e as Error)?.message ?? String(e);
+
+// --- Recording ---
+
+export const createRecordingClient = (inner: AiClient, cassette: Cassette, onRecord?: (entry: CassetteEntry) => void): AiClient => {
+    const record = (entry: CassetteEntry) => {
+        cassette.entries.push(entry);
+        onRecord?.(entry);
+    };
+
+    return {
+        models: {
+            generateContent: async (params) => {
+                const request = toPlain(params);
+                const base = { kind: 'generateContent' as const, model: params.model, requestHash: hashText(JSON.stringify(request)), request };
+                try {
+                    const response = await inner.models.generateContent(params);
+                    record({ ...base, chunks: [toPlain(response)] });
+                    return response;
+                } catch (e) {
+                    if (!isAbortError(e)) record({ ...base, chunks: [], error: errorMessage(e) });
+                    throw e;
+                }
+            },
+        },
+        chats: {
+            create: (chatParams) => {
+                const chat = inner.chats.create(chatParams);
+                return {
+                    sendMessageStream: async (params) => {
+                        const request = toPlain({ chat: chatParams, message: params.message, config: params.config });
+                        const base = { kind: 'sendMessageStream' as const, model: chatParams.model, requestHash: hashText(JSON.stringify(request)), request };
+                        let stream: AsyncGenerator<GenerateContentResponse>;
+                        try {
+                            stream = await chat.sendMessageStream(params);
+                        } catch (e) {
+                            if (!isAbortError(e)) record({ ...base, chunks: [], error: errorMessage(e) });
+                            throw e;
+                        }
+                        return (async function* () {
+                            const chunks: unknown[] = [];
+                            try {
+                                for await (const chunk of stream) {
+                                    chunks.push(toPlain(chunk));
+                                    yield chunk;
+                                }
+                            } catch (e) {
+                                if (!isAbortError(e)) record({ ...base, chunks, error: errorMessage(e) });
+                                throw e;
+                            }
+                            record({ ...base, chunks });
+                        })();
+                    },
+                };
+            },
+        },
+    };
+};
+
+// --- Replay ---
+
+// Calls are matched to the first unused entry with an identical request. Requests that embed
+// timestamps never match exactly, so those fall back to the next unused entry of the same kind and model.
+export const createReplayClient = (cassette: Cassette): AiClient => {
+    const used = new Set<number>();
+    const take = (kind: CassetteCallKind, model: string, request: unknown): CassetteEntry => {
+        const requestHash = hashText(JSON.stringify(request));
+        const isFree = (e: CassetteEntry, i: number) => !used.has(i) && e.kind === kind;
+        let index = cassette.entries.findIndex((e, i) => isFree(e, i) && e.requestHash === requestHash);
+        if (index < 0) index = cassette.entries.findIndex((e, i) => isFree(e, i) && e.model === model);
+        if (index < 0) throw new Error(`Cassette has no recorded ${kind} response left for model '${model}'.`);
+        used.add(index);
+        return cassette.entries[index];
+    };
+
+    return {
+        models: {
+            generateContent: async (params) => {
+                const entry = take('generateContent', params.model, toPlain(params));
+                if (entry.error) throw new Error(entry.error);
+                return toResponse(entry.chunks[0]);
+            },
+        },
+        chats: {
+            create: (chatParams): AiChat => ({
+                sendMessageStream: async (params) => {
+                    const entry = take('sendMessageStream', chatParams.model, toPlain({ chat: chatParams, message: params.message, config: params.config }));
+                    if (entry.error && entry.chunks.length === 0) throw new Error(entry.error);
+                    return (async function* () {
+                        for (const chunk of entry.chunks) yield toResponse(chunk);
+                        if (entry.error) throw new Error(entry.error);
+                    })();
+                },
+            }),
+        },
+    };
+};
@@ -0,0 +1,11 @@
+import { GoogleGenAI } from '@google/genai';
+import { AiClient } from './aiClient';
+
+// The SDK already has the AiClient shape; this only centralizes how it is configured.
+export const createGeminiClient = (apiKey: string | undefined): AiClient => {
+    if (!apiKey) {
+        console.error("API_KEY is missing from process.env");
+        throw new Error("API Key is not configured.");
+    }
+    return new GoogleGenAI({ apiKey });
+};
@@ -0,0 +1,37 @@
+import { ModelProviderId, ProviderSettings } from '../../types';
+import { AiClient } from './aiClient';
+import { createGeminiClient } from './gemini';
+import { createOpenAiCompatibleClient } from './openaiCompatible';
+import { createScriptedClient } from './scripted';
+
+export type { AiClient, AiChat } from './aiClient';
+export type { ScriptedTurn } from './scripted';
+export { createScriptedClient };
+
+export const PROVIDER_LABELS: Record<ModelProviderId, string> = {
+    gemini: 'Gemini',
+    openai: 'OpenAI-compatible',
+    scripted: 'Scripted (offline)',
+};
+
+// One scripted client per session, so its script is consumed across calls
+let scriptedClient: AiClient | null = null;
+
+export const createProviderClient = (provider: ModelProviderId, settings: ProviderSettings, geminiApiKey: string | undefined): AiClient => {
+    switch (provider) {
+        case 'openai':
+            return createOpenAiCompatibleClient({ baseUrl: settings.openai.baseUrl, apiKey: settings.openai.apiKey });
+        case 'scripted':
+            return scriptedClient ??= createScriptedClient();
+        case 'gemini':
+        default:
+            return createGeminiClient(geminiApiKey);
+    }
+};
+
+// The provider and model an agent actually runs on, after the global override is applied.
+export const resolveAgentModel = (agentConfig: { provider?: ModelProviderId; model: string }, settings: ProviderSettings): { provider: ModelProviderId; model: string } => {
+    const provider = settings.override ?? agentConfig.provider ?? 'gemini';
+    const model = settings.override === 'openai' ? settings.openai.model : agentConfig.model;
+    return { provider, model };
+};
@@ -0,0 +1,216 @@
+import { Content, ContentListUnion, GenerateContentConfig, GenerateContentResponse, Part, PartListUnion } from '@google/genai';
+import { AiChat, AiClient } from './aiClient';
+
+// Speaks the OpenAI /chat/completions protocol, so any compatible server (llama.cpp, Ollama, vLLM, ...)
+// can stand in for Gemini. Requests and responses are translated to and from the Gemini shapes the app uses.
+// Gemini-only features (googleSearch grounding, thinking budgets) are dropped.
+
+export interface OpenAiCompatibleOptions {
+    baseUrl: string; // e.g. http://localhost:11434/v1
+    apiKey?: string;
+}
+
+type OpenAiMessage =
+    | { role: 'system' | 'user'; content: string | { type: string; [key: string]: unknown }[] }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+// --- Request translation ---
+
+const isContent = (value: unknown): value is Content => typeof value === 'object' && value !== null && 'parts' in value;
+
+const toParts = (value: PartListUnion | Content): Part[] => {
+    if (isContent(value)) return value.parts || [];
+    const list = Array.isArray(value) ? value : [value];
+    return list.map(p => typeof p === 'string' ? { text: p } : p);
+};
+
+const toContents = (value: ContentListUnion): Content[] => {
+    if (Array.isArray(value) && value.length > 0 && isContent(value[0])) return value as Content[];
+    if (isContent(value)) return [value];
+    return [{ role: 'user', parts: toParts(value as PartListUnion) }];
+};
+
+// Gemini pairs a tool result with its call by function name; OpenAI needs a unique tool_call_id. Each call gets an id
+// from its position, and a result takes the id of the oldest unanswered call to the same function.
+const toMessages = (contents: Content[]): OpenAiMessage[] => {
+    const unanswered = new Map<string, string[]>();
+    return contents.flatMap((content, turnIndex): OpenAiMessage[] => {
+        const parts = content.parts || [];
+        const text = parts.filter(p => p.text).map(p => p.text).join('');
+        const toolCalls: OpenAiToolCall[] = parts.flatMap((p, partIndex): OpenAiToolCall[] => {
+            if (!p.functionCall || content.role !== 'model') return [];
+            const name = p.functionCall.name || '';
+            const id = `call_${turnIndex}_${partIndex}`;
+            unanswered.set(name, [...(unanswered.get(name) || []), id]);
+            return [{ id, type: 'function', function: { name, arguments: JSON.stringify(p.functionCall.args ?? {}) } }];
+        });
+        const toolResults: OpenAiMessage[] = parts.flatMap((p, partIndex): OpenAiMessage[] => {
+            if (!p.functionResponse) return [];
+            const name = p.functionResponse.name || '';
+            const id = unanswered.get(name)?.shift() ?? `call_${turnIndex}_${partIndex}`;
+            return [{ role: 'tool', tool_call_id: id, content: JSON.stringify(p.functionResponse.response ?? {}) }];
+        });
+
+        if (content.role === 'model') {
+            const assistant: OpenAiMessage[] = text || toolCalls.length > 0
+                ? [{ role: 'assistant', content: text || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) }]
+                : [];
+            return [...assistant, ...toolResults];
+        }
+
+        const images = parts.filter(p => p.inlineData?.mimeType?.startsWith('image/'));
+        const user: OpenAiMessage[] = images.length > 0
+            ? [{ role: 'user', content: [
+                ...(text ? [{ type: 'text', text }] : []),
+                ...images.map(p => ({ type: 'image_url', image_url: { url: `data:${p.inlineData!.mimeType};base64,${p.inlineData!.data}` } })),
+              ] }]
+            : text ? [{ role: 'user', content: text }] : [];
+        return [...toolResults, ...user];
+    });
+};
+
+const systemText = (config?: GenerateContentConfig): string | undefined => {
+    const instruction = config?.systemInstruction;
+    if (!instruction) return undefined;
+    if (typeof instruction === 'string') return instruction;
+    return toParts(instruction as PartListUnion | Content).map(p => p.text || '').join('\n') || undefined;
+};
+
+// Gemini schemas use upper-case type names (Type.OBJECT); JSON Schema wants lower case.
+const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const result: any = {};
+    if (schema.type) result.type = String(schema.type).toLowerCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.required) result.required = schema.required;
+    if (schema.properties) result.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+    if (schema.items) result.items = toJsonSchema(schema.items);
+    return result;
+};
+
+const toRequestBody = (model: string, contents: Content[], config: GenerateContentConfig | undefined, stream: boolean) => {
+    const system = systemText(config);
+    const tools = (config?.tools || []).flatMap((t: any) => t.functionDeclarations || []).map((fd: any) => ({
+        type: 'function',
+        function: { name: fd.name, description: fd.description, parameters: toJsonSchema(fd.parameters) || { type: 'object', properties: {} } },
+    }));
+    return {
+        model,
+        messages: [...(system ? [{ role: 'system', content: system }] : []), ...toMessages(contents)],
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+        ...(tools.length > 0 && { tools }),
+        ...(config?.temperature !== undefined && { temperature: config.temperature }),
+        ...(config?.responseMimeType === 'application/json' && {
+            response_format: config.responseSchema
+                ? { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(config.responseSchema) } }
+                : { type: 'json_object' },
+        }),
+    };
+};
+
+// --- Response translation ---
+
+const toResponse = (text: string, toolCalls: { name: string; arguments: string }[], usage?: any, finishReason?: string): GenerateContentResponse => {
+    const parts: Part[] = [
+        ...(text ? [{ text }] : []),
+        ...toolCalls.map(tc => {
+            let args: Record<string, unknown> = {};
+            try { args = tc.arguments ? JSON.parse(tc.arguments) : {}; } catch { console.warn(`Tool call '${tc.name}' returned non-JSON arguments.`); }
+            return { functionCall: { name: tc.name, args } };
+        }),
+    ];
+    return Object.assign(new GenerateContentResponse(), {
+        candidates: [{ content: { role: 'model', parts }, ...(finishReason && { finishReason: finishReason.toUpperCase() }) }],
+        ...(usage && { usageMetadata: { promptTokenCount: usage.prompt_tokens, candidatesTokenCount: usage.completion_tokens, totalTokenCount: usage.total_tokens } }),
+    });
+};
+
+export const createOpenAiCompatibleClient = ({ baseUrl, apiKey }: OpenAiCompatibleOptions): AiClient => {
+    const post = async (body: unknown, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`);
+        return response;
+    };
+
+    const generate = async (model: string, contents: Content[], config?: GenerateContentConfig): Promise<GenerateContentResponse> => {
+        const response = await post(toRequestBody(model, contents, config, false), config?.abortSignal);
+        const json = await response.json();
+        const choice = json.choices?.[0];
+        const toolCalls = (choice?.message?.tool_calls || []).map((tc: OpenAiToolCall) => tc.function);
+        return toResponse(choice?.message?.content || '', toolCalls, json.usage, choice?.finish_reason);
+    };
+
+    // Text is yielded as it arrives; tool calls arrive as fragments and are yielded once, with usage, at the end.
+    async function* readStream(response: Response): AsyncGenerator<GenerateContentResponse> {
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        const toolCalls: { name: string; arguments: string }[] = [];
+        let buffer = '', usage: any, finishReason: string | undefined;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                const data = line.trim().replace(/^data:\s*/, '');
+                if (!data || data === '[DONE]' || !line.trim().startsWith('data:')) continue;
+                const chunk = JSON.parse(data);
+                usage = chunk.usage ?? usage;
+                const choice = chunk.choices?.[0];
+                if (!choice) continue;
+                finishReason = choice.finish_reason ?? finishReason;
+                (choice.delta?.tool_calls || []).forEach((delta: any) => {
+                    const call = toolCalls[delta.index ?? 0] ??= { name: '', arguments: '' };
+                    if (delta.function?.name) call.name += delta.function.name;
+                    if (delta.function?.arguments) call.arguments += delta.function.arguments;
+                });
+                if (choice.delta?.content) yield toResponse(choice.delta.content, []);
+            }
+        }
+        yield toResponse('', toolCalls.filter(tc => tc.name), usage, finishReason);
+    }
+
+    return {
+        models: {
+            generateContent: (params) => generate(params.model, toContents(params.contents), params.config),
+        },
+        chats: {
+            create: ({ model, config, history }): AiChat => {
+                const turns: Content[] = [...(history || [])];
+                return {
+                    sendMessageStream: async ({ message, config: requestConfig }) => {
+                        const userTurn: Content = { role: 'user', parts: toParts(message as PartListUnion | Content) };
+                        const effectiveConfig = requestConfig ?? config;
+                        // The request is sent before returning, so connection errors surface here (and reach withRetry)
+                        const source = readStream(await post(toRequestBody(model, [...turns, userTurn], effectiveConfig, true), effectiveConfig?.abortSignal));
+                        // Like the SDK, the exchange joins the chat history once the stream completes
+                        return (async function* () {
+                            const modelParts: Part[] = [];
+                            for await (const chunk of source) {
+                                modelParts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+                                yield chunk;
+                            }
+                            turns.push(userTurn, { role: 'model', parts: modelParts });
+                        })();
+                    },
+                };
+            },
+        },
+    };
+};
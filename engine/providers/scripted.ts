@@ -0,0 +1,70 @@
+import { Content, ContentListUnion, GenerateContentResponse, Part } from '@google/genai';
+import { AiChat, AiClient } from './aiClient';
+
+// An offline provider that answers from a script, for tests and for exercising the UI without a model.
+// Each turn is used once, in order; a turn with `match` is only used for requests whose text contains
+// (or matches) it. When no turn fits, the fallback answers.
+
+export interface ScriptedTurn {
+    match?: string | RegExp;
+    model?: string; // Only answer requests for this model
+    text?: string;
+    functionCalls?: { name: string; args: Record<string, unknown> }[];
+    error?: string; // Fail the call with this message instead of answering
+}
+
+const flattenText = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return value.map(flattenText).join('\n');
+    if (value && typeof value === 'object') {
+        const v = value as Content & Part;
+        if (v.parts) return flattenText(v.parts);
+        if (v.text) return v.text;
+    }
+    return '';
+};
+
+// By default the provider just echoes the request, so every agent produces visible output.
+const echoTurn = (requestText: string): ScriptedTurn => ({ text: `[scripted] ${requestText.trim().slice(-200)}` });
+
+const toResponse = (text: string, functionCalls: ScriptedTurn['functionCalls'] = []): GenerateContentResponse =>
+    Object.assign(new GenerateContentResponse(), {
+        candidates: [{ content: { role: 'model', parts: [...(text ? [{ text }] : []), ...functionCalls.map(fc => ({ functionCall: fc }))] }, finishReason: 'STOP' }],
+    });
+
+export const createScriptedClient = (turns: ScriptedTurn[] = [], fallback: (requestText: string) => ScriptedTurn = echoTurn): AiClient => {
+    const used = new Set<number>();
+    const answer = (model: string, request: ContentListUnion): ScriptedTurn => {
+        const requestText = flattenText(request);
+        const index = turns.findIndex((turn, i) => !used.has(i)
+            && (!turn.model || turn.model === model)
+            && (!turn.match || (typeof turn.match === 'string' ? requestText.includes(turn.match) : turn.match.test(requestText))));
+        if (index < 0) return fallback(requestText);
+        used.add(index);
+        return turns[index];
+    };
+
+    return {
+        models: {
+            generateContent: async ({ model, contents }) => {
+                const turn = answer(model, contents);
+                if (turn.error) throw new Error(turn.error);
+                return toResponse(turn.text || '', turn.functionCalls);
+            },
+        },
+        chats: {
+            create: ({ model }): AiChat => ({
+                sendMessageStream: async ({ message }) => {
+                    const turn = answer(model, message as ContentListUnion);
+                    if (turn.error) throw new Error(turn.error);
+                    // Word-sized chunks, so streaming UI paths are exercised too
+                    const words = (turn.text || '').match(/\S+\s*/g) || [];
+                    return (async function* () {
+                        for (const word of words) yield toResponse(word);
+                        if (turn.functionCalls?.length) yield toResponse('', turn.functionCalls);
+                    })();
+                },
+            }),
+        },
+    };
+};
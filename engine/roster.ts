@@ -0,0 +1,44 @@
+import { Tool } from '@google/genai';
+import { TaskType } from '../types';
+import { AGENT_ROSTER, INTERNAL_AGENTS, PLAN_STEP_AGENTS, PLAN_TOOL, createPlanTool } from '../constants';
+import { ROUTABLE_AGENTS, SUPERVISOR_ROUTER_TOOL, createRouterTool, createSupervisorRouterTool } from './toolDefinitions';
+
+// The agents a run may use. An empty selection means the user has not narrowed the roster, so every agent is enabled.
+export const getEnabledAgents = (activeRoster: readonly TaskType[]): TaskType[] => {
+    const selectable = Object.values(TaskType).filter(t => !INTERNAL_AGENTS.includes(t));
+    const enabled = selectable.filter(t => activeRoster.includes(t));
+    return enabled.length > 0 ? enabled : selectable;
+};
+
+export const isAgentEnabled = (roster: readonly TaskType[], agent: string): boolean => roster.includes(agent as TaskType);
+
+export const getPlanAgents = (roster: readonly TaskType[]): TaskType[] => PLAN_STEP_AGENTS.filter(a => roster.includes(a));
+
+// The Router always keeps a route: with nothing routable enabled it falls back to Chat
+export const getRoutableAgents = (roster: readonly TaskType[]): TaskType[] => {
+    const routes = ROUTABLE_AGENTS.filter(a => roster.includes(a));
+    return routes.length > 0 ? routes : [TaskType.Chat];
+};
+
+// The Supervisor can always reach the Planner (the graph cannot run without a plan), the internal agents the
+// user cannot deselect, and the end of the run
+export const getSupervisorNodes = (roster: readonly TaskType[]): string[] => {
+    const system = INTERNAL_AGENTS.filter(a => a !== TaskType.Supervisor && a !== TaskType.Router);
+    return [...new Set([TaskType.Planner, ...system, ...roster.filter(a => a !== TaskType.Supervisor)]), 'A_FINAL'];
+};
+
+export const createRosteredRouterTool = (roster: readonly TaskType[]) => createRouterTool(getRoutableAgents(roster));
+
+// The meta-agents' tools with their agent enums narrowed to the roster; other agents keep their tools as declared
+export const getRosterTools = (taskType: TaskType, roster: readonly TaskType[]): Tool[] | undefined =>
+    AGENT_ROSTER[taskType].tools?.map(tool => !tool.functionDeclarations ? tool : {
+        ...tool,
+        functionDeclarations: tool.functionDeclarations.map(fd =>
+            fd.name === PLAN_TOOL.name ? createPlanTool([...getPlanAgents(roster), TaskType.Planner])
+            : fd.name === SUPERVISOR_ROUTER_TOOL.name ? createSupervisorRouterTool(getSupervisorNodes(roster))
+            : fd),
+    });
+
+// Appended to the meta-agents' instructions so the prompt agrees with the narrowed tool enums
+export const describeRoster = (agents: readonly string[]): string =>
+    `\n\n### ACTIVE ROSTER\nOnly these agents are enabled for this run: ${agents.join(', ')}. You MUST NOT choose any other agent.`;
@@ -0,0 +1,43 @@
+import { DebateRound, DebateTranscript, RoundTablePersona, RoundTableSettings } from '../types';
+import { MAX_ROUND_TABLE_ROUNDS, ROUND_TABLE_PERSONAS } from '../constants';
+
+export const clampRoundTableSettings = (settings: RoundTableSettings): RoundTableSettings => ({
+    participants: Math.min(ROUND_TABLE_PERSONAS.length, Math.max(2, Math.round(settings.participants))),
+    rounds: Math.min(MAX_ROUND_TABLE_ROUNDS, Math.max(0, Math.round(settings.rounds))),
+});
+
+export const createDebateTranscript = (topic: string, settings: RoundTableSettings): DebateTranscript => ({
+    topic,
+    participants: ROUND_TABLE_PERSONAS.slice(0, settings.participants),
+    rounds: [],
+    totalRounds: settings.rounds + 1,
+    status: 'running',
+});
+
+// Each participant's most recent answer that did not fail
+export const latestPositions = (debate: DebateTranscript): { persona: string; content: string }[] =>
+    debate.participants.flatMap(p => {
+        const turn = [...debate.rounds].reverse().flatMap(r => r.turns).find(t => t.persona === p.name && t.status === 'done');
+        return turn ? [{ persona: p.name, content: turn.content }] : [];
+    });
+
+export const buildProposalPrompt = (topic: string): string =>
+    `Topic for the round table:\n${topic}\n\nGive your own answer to the topic from your point of view. Be concrete and keep it under 300 words.`;
+
+export const buildCritiquePrompt = (debate: DebateTranscript, persona: RoundTablePersona, round: number): string => {
+    const others = latestPositions(debate).filter(p => p.persona !== persona.name);
+    const own = latestPositions(debate).find(p => p.persona === persona.name);
+    return `Topic for the round table:\n${debate.topic}
+
+This is critique round ${round - 1}. ${own ? `Your current answer:\n${own.content}\n\n` : ''}The other participants' current answers:
+${others.map(p => `### ${p.persona}\n${p.content}`).join('\n\n') || '(none)'}
+
+First critique each of the other answers in one or two sentences, naming the participant. Then give your revised answer under a "Revised answer" heading, keeping what held up and fixing what did not. Keep it under 350 words.`;
+};
+
+export const formatDebateRounds = (rounds: DebateRound[]): string =>
+    rounds.map(r => `## Round ${r.round} (${r.kind === 'proposal' ? 'opening proposals' : 'critiques and revisions'})\n` +
+        r.turns.filter(t => t.status === 'done').map(t => `### ${t.persona}\n${t.content}`).join('\n\n')).join('\n\n');
+
+export const buildModeratorPrompt = (debate: DebateTranscript): string =>
+    `Topic:\n${debate.topic}\n\nDebate transcript:\n${formatDebateRounds(debate.rounds)}\n\nWrite the final answer.`;
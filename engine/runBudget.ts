@@ -0,0 +1,37 @@
+import { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { BudgetUsage, RunBudget, TokenUsage } from '../types';
+
+export const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined => {
+    if (!metadata) return undefined;
+    const promptTokens = metadata.promptTokenCount || 0;
+    const candidatesTokens = metadata.candidatesTokenCount || 0;
+    const thoughtsTokens = metadata.thoughtsTokenCount || 0;
+    return { promptTokens, candidatesTokens, thoughtsTokens, totalTokens: metadata.totalTokenCount || promptTokens + candidatesTokens + thoughtsTokens };
+};
+
+export const createBudgetUsage = (): BudgetUsage => ({ iterations: 0, replans: 0, totalTokens: 0, startedAt: Date.now() });
+
+export const addTokenUsage = (usage: BudgetUsage, tokens?: TokenUsage) => {
+    if (tokens) usage.totalTokens += tokens.totalTokens;
+};
+
+// Returns a human-readable reason once any limit is exhausted, otherwise null.
+export const getBudgetViolation = (budget: RunBudget, usage: BudgetUsage, now: number = Date.now()): string | null => {
+    if (usage.iterations >= budget.maxIterations) return `iteration limit of ${budget.maxIterations} reached`;
+    if (usage.totalTokens >= budget.maxTotalTokens) return `token limit of ${budget.maxTotalTokens.toLocaleString()} reached (${usage.totalTokens.toLocaleString()} used)`;
+    if (now - usage.startedAt >= budget.maxWallClockMs) return `wall-clock limit of ${formatDuration(budget.maxWallClockMs)} reached`;
+    return null;
+};
+
+export const isReplanAllowed = (budget: RunBudget, usage: BudgetUsage): boolean => usage.replans < budget.maxReplans;
+
+const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    return minutes > 0 ? `${minutes}m${String(totalSeconds % 60).padStart(2, '0')}s` : `${totalSeconds}s`;
+};
+
+export const formatBudgetStatus = (budget: RunBudget, usage: BudgetUsage, now: number = Date.now()): string =>
+    `[Budget] iterations ${usage.iterations}/${budget.maxIterations} · replans ${usage.replans}/${budget.maxReplans} · ` +
+    `tokens ${usage.totalTokens.toLocaleString()}/${budget.maxTotalTokens.toLocaleString()} · ` +
+    `time left ${formatDuration(budget.maxWallClockMs - (now - usage.startedAt))}`;
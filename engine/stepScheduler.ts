@@ -0,0 +1,154 @@
+import { SchedulerSettings, StepQueueState } from '../types';
+import { RATE_LIMIT_COOLDOWN_MS } from '../constants';
+import { createAbortError } from './helpers';
+
+export interface StepScheduler {
+    // Runs `task` once `model` has a free slot and a rate-limit token. Waiters with a higher priority go first.
+    run: <T>(model: string, priority: number, task: () => Promise<T>, options: { signal?: AbortSignal; onQueue: (queue: StepQueueState | null) => void }) => Promise<T>;
+    // Stops new starts on `model` until it may be called again
+    reportRateLimit: (model: string, retryAfterMs?: number) => void;
+}
+
+interface Waiter {
+    priority: number;
+    seq: number; // Arrival order, so equal priorities are first come, first served
+    reported?: string; // The queue state last passed to onQueue, to skip repeats
+    onQueue: (queue: StepQueueState | null) => void;
+    start: () => void;
+}
+
+// One per model: running steps, a token bucket refilled at `requestsPerMinute`, and the steps waiting for either
+interface ModelLane {
+    active: number;
+    tokens: number;
+    refilledAt: number;
+    pausedUntil: number;
+    waiting: Waiter[];
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+export const createStepScheduler = (getSettings: () => SchedulerSettings): StepScheduler => {
+    const lanes = new Map<string, ModelLane>();
+    let seq = 0;
+
+    const maxConcurrency = () => Math.max(1, getSettings().maxConcurrencyPerModel);
+
+    const laneFor = (model: string): ModelLane => {
+        let lane = lanes.get(model);
+        if (!lane) {
+            lane = { active: 0, tokens: maxConcurrency(), refilledAt: Date.now(), pausedUntil: 0, waiting: [] };
+            lanes.set(model, lane);
+        }
+        return lane;
+    };
+
+    // The bucket holds at most one token per slot, so a burst never exceeds the concurrency limit
+    const refill = (lane: ModelLane, now: number) => {
+        const { requestsPerMinute } = getSettings();
+        if (now < lane.pausedUntil) return;
+        if (requestsPerMinute <= 0) {
+            lane.tokens = maxConcurrency();
+        } else {
+            const elapsed = now - Math.max(lane.refilledAt, lane.pausedUntil);
+            lane.tokens = Math.min(maxConcurrency(), lane.tokens + elapsed * requestsPerMinute / 60000);
+        }
+        lane.refilledAt = now;
+    };
+
+    const pump = (model: string) => {
+        const lane = laneFor(model);
+        const now = Date.now();
+        refill(lane, now);
+        lane.waiting.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+        while (lane.waiting.length > 0 && lane.active < maxConcurrency() && lane.tokens >= 1) {
+            lane.tokens -= 1;
+            lane.active++;
+            lane.waiting.shift()!.start();
+        }
+
+        // Whoever is left waits on the rate limit if a slot is free, otherwise on a slot
+        const waitingFor: StepQueueState['waitingFor'] = lane.active < maxConcurrency() ? 'rate_limit' : 'slot';
+        lane.waiting.forEach((waiter, i) => {
+            const queue: StepQueueState = { model, position: i + 1, waitingFor };
+            const key = `${queue.position}:${waitingFor}`;
+            if (waiter.reported === key) return;
+            waiter.reported = key;
+            waiter.onQueue(queue);
+        });
+        if (waitingFor === 'rate_limit' && lane.waiting.length > 0 && !lane.timer) {
+            const { requestsPerMinute } = getSettings();
+            const wait = now < lane.pausedUntil ? lane.pausedUntil - now : Math.ceil((1 - lane.tokens) * 60000 / requestsPerMinute);
+            lane.timer = setTimeout(() => {
+                lane.timer = undefined;
+                pump(model);
+            }, wait);
+        }
+    };
+
+    return {
+        run: (model, priority, task, { signal, onQueue }) => new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(createAbortError());
+            const lane = laneFor(model);
+            const onAbort = () => {
+                lane.waiting = lane.waiting.filter(w => w !== waiter);
+                onQueue(null);
+                reject(createAbortError());
+                pump(model);
+            };
+            const waiter: Waiter = {
+                priority,
+                seq: seq++,
+                onQueue,
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    if (waiter.reported) onQueue(null);
+                    task().then(resolve, reject).finally(() => {
+                        lane.active--;
+                        pump(model);
+                    });
+                },
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            lane.waiting.push(waiter);
+            pump(model);
+        }),
+        reportRateLimit: (model, retryAfterMs = RATE_LIMIT_COOLDOWN_MS) => {
+            const lane = laneFor(model);
+            lane.tokens = 0;
+            lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + retryAfterMs);
+            clearTimeout(lane.timer);
+            lane.timer = undefined;
+            pump(model);
+        },
+    };
+};
+
+export const isRateLimitError = (error: unknown): boolean =>
+    (error as { status?: number })?.status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test((error as Error)?.message ?? '');
+
+// Gemini puts `"retryDelay": "30s"` in the error body; OpenAI-compatible servers may echo a Retry-After value
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+    const match = ((error as Error)?.message ?? '').match(/retry[-_ ]?(?:after|delay)["':\s]*(\d+(?:\.\d+)?)/i);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+};
+
+// An abort controller for one step attempt: it follows the run's signal, and also fires once `timeoutMs` passes (0 never does)
+export const createAttemptController = (parent: AbortSignal, timeoutMs: number) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const onParentAbort = () => controller.abort();
+    if (parent.aborted) controller.abort();
+    else parent.addEventListener('abort', onParentAbort, { once: true });
+    const timer = timeoutMs > 0 ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs) : undefined;
+    return {
+        controller,
+        hasTimedOut: () => timedOut,
+        dispose: () => {
+            clearTimeout(timer);
+            parent.removeEventListener('abort', onParentAbort);
+        },
+    };
+};
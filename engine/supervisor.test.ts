@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { GraphState, Plan, PlanStep, TaskType } from '../types';
+import { DEFAULT_RUN_BUDGET } from '../constants';
+import { createBudgetUsage } from './runBudget';
+import { decideNextNode } from './supervisor';
+
+const ROSTER = [TaskType.Research, TaskType.Creative, TaskType.Critique];
+
+const step = (step_id: number, tool_to_use: TaskType, dependencies: number[] = [], status: PlanStep['status'] = 'pending'): PlanStep =>
+    ({ step_id, description: `Step ${step_id}`, tool_to_use, acceptance_criteria: '', status, dependencies });
+
+const stateWith = (plan: Plan | null, lastOutput: unknown = plan): GraphState => ({
+    id: 'run-1', originalPrompt: 'Write a report.', plan, history: [], lastOutput, nextAgent: TaskType.Planner,
+    error: null, blackboard: {}, budget: { ...DEFAULT_RUN_BUDGET }, budgetUsage: createBudgetUsage(), roster: ROSTER,
+});
+
+describe('decideNextNode', () => {
+    it('asks the Planner when there is no plan', () => {
+        expect(decideNextNode(stateWith(null), ROSTER).agent).toBe(TaskType.Planner);
+    });
+
+    it('moves a fresh plan on to execution, then to Critique once every step is done', () => {
+        const plan: Plan = { id: 'plan-run-1', plan: [step(1, TaskType.Research), step(2, TaskType.Creative, [1])] };
+        expect(decideNextNode(stateWith(plan), ROSTER).agent).toBe(TaskType.Research);
+
+        plan.plan[0].status = 'completed';
+        expect(decideNextNode(stateWith(plan), ROSTER).agent).toBe(TaskType.Creative);
+
+        plan.plan[1].status = 'completed';
+        expect(decideNextNode(stateWith(plan, 'The report.'), ROSTER).agent).toBe(TaskType.Critique);
+    });
+
+    it('ends the run when every step is done and Critique is not in the roster', () => {
+        const plan: Plan = { id: 'plan-run-1', plan: [step(1, TaskType.Research, [], 'completed')] };
+        expect(decideNextNode(stateWith(plan), [TaskType.Research]).agent).toBe('A_FINAL');
+    });
+
+    it('re-plans when a step failed', () => {
+        const plan: Plan = { id: 'plan-run-1', plan: [step(1, TaskType.Research, [], 'failed'), step(2, TaskType.Creative, [1])] };
+        expect(decideNextNode(stateWith(plan), ROSTER)).toEqual({ agent: TaskType.Planner, reasoning: 'Step(s) 1 failed.' });
+    });
+
+    it('re-plans when a step waits on a step that does not exist', () => {
+        const plan: Plan = { id: 'plan-run-1', plan: [step(1, TaskType.Research, [7])] };
+        expect(decideNextNode(stateWith(plan), ROSTER)).toEqual({ agent: TaskType.Planner, reasoning: 'Step(s) 1 are blocked.' });
+    });
+
+    it('follows the critique once there is one', () => {
+        const plan: Plan = { id: 'plan-run-1', plan: [step(1, TaskType.Research, [], 'completed')] };
+        const critique = (score: number) => ({ critique: 'Reviewed.', scores: { faithfulness: score, coherence: score, coverage: score } });
+        expect(decideNextNode(stateWith(plan, critique(10)), ROSTER).agent).toBe('A_FINAL');
+        expect(decideNextNode(stateWith(plan, critique(1)), ROSTER).agent).toBe(TaskType.Planner);
+    });
+});
@@ -0,0 +1,68 @@
+import { CritiqueResult, GraphState, PlanStep, SupervisorDecision, TaskType } from '../types';
+import { CRITIQUE_PASS_SCORE } from '../constants';
+import { isCritiquePassing } from './helpers';
+import { collectRunnableSteps, flattenPlanSteps, isStepSettled } from './planUtils';
+import { getPlanAgents } from './roster';
+
+const isCritiqueOutput = (output: unknown): output is CritiqueResult =>
+    !!output && typeof output === 'object' && 'scores' in output && 'critique' in output;
+
+// Steps that can never run: failed or cancelled ones, and those waiting on such a step or on one that does not
+// exist. Dependencies refer to steps of the same (sub-)plan.
+const findStuckSteps = (steps: PlanStep[]): PlanStep[] => {
+    const stuck = new Map<number, boolean>();
+    const isStuck = (step: PlanStep, visiting: Set<number>): boolean => {
+        if (stuck.has(step.step_id)) return stuck.get(step.step_id)!;
+        if (visiting.has(step.step_id)) return true; // A cycle can never run either
+        visiting.add(step.step_id);
+        const result = step.status === 'failed' || step.status === 'cancelled' || (!isStepSettled(step) && (step.dependencies || []).some(id => {
+            const dependency = steps.find(s => s.step_id === id);
+            return !dependency || isStuck(dependency, visiting);
+        }));
+        stuck.set(step.step_id, result);
+        return result;
+    };
+    return steps.flatMap(step => [
+        ...(isStuck(step, new Set()) ? [step] : []),
+        ...(step.subplan ? findStuckSteps(step.subplan.plan) : []),
+    ]);
+};
+
+// The policy of SUPERVISOR_SYSTEM_INSTRUCTION in code. The graph asks for a decision right after the Planner
+// (every step still pending) and whenever no step can run; the plan is only sent back when a step never can.
+export const decideNextNode = (state: GraphState, roster: readonly TaskType[]): SupervisorDecision => {
+    if (state.error) return { agent: 'A_FINAL', reasoning: `Halting on error: ${state.error}` };
+    if (!state.plan || state.plan.plan.length === 0) return { agent: TaskType.Planner, reasoning: 'There is no plan yet.' };
+
+    if (isCritiqueOutput(state.lastOutput)) {
+        return isCritiquePassing(state.lastOutput.scores, CRITIQUE_PASS_SCORE)
+            ? { agent: 'A_FINAL', reasoning: 'The critique passed.' }
+            : { agent: TaskType.Planner, reasoning: 'The critique failed, so the plan must be revised.' };
+    }
+
+    const stuck = findStuckSteps(state.plan.plan);
+    if (stuck.length > 0) {
+        const failed = stuck.filter(s => s.status === 'failed' || s.status === 'cancelled');
+        return {
+            agent: TaskType.Planner,
+            reasoning: failed.length > 0
+                ? `Step(s) ${failed.map(s => s.step_id).join(', ')} failed.`
+                : `Step(s) ${stuck.map(s => s.step_id).join(', ')} are blocked.`,
+        };
+    }
+
+    // The graph runs ready steps on its own, so any worker keeps it executing. Meta-agents would run as a
+    // node instead: the Planner would replace the plan and Critique would judge it unfinished.
+    const unsettled = flattenPlanSteps(state.plan.plan).filter(s => !s.subplan && !isStepSettled(s));
+    if (unsettled.length > 0) {
+        const isWorker = (agent: string) => agent !== TaskType.Planner && agent !== TaskType.Critique && roster.includes(agent as TaskType);
+        const worker = [...collectRunnableSteps(state.plan).map(r => r.step), ...unsettled].map(s => s.tool_to_use).find(isWorker)
+            ?? getPlanAgents(roster).find(isWorker)
+            ?? TaskType.Chat;
+        return { agent: worker as TaskType, reasoning: `Step(s) ${unsettled.map(s => s.step_id).join(', ')} can still run; continuing execution.` };
+    }
+
+    return roster.includes(TaskType.Critique)
+        ? { agent: TaskType.Critique, reasoning: 'All steps are done; the result needs a critique.' }
+        : { agent: 'A_FINAL', reasoning: 'All steps are done and Critique is not in the active roster.' };
+};
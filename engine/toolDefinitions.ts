@@ -1,8 +1,11 @@
 
 import { FunctionDeclaration, Type } from '@google/genai';
-import { TaskType } from '../../types';
+import { TaskType } from '../types';
 
-export const ROUTER_TOOL: FunctionDeclaration = {
+// Agents the Router may pick when the roster is not narrowed: everything except internal agents and the Router itself
+export const ROUTABLE_AGENTS: TaskType[] = Object.values(TaskType).filter(t => t !== TaskType.Critique && t !== TaskType.Verifier && t !== TaskType.Reranker && t !== TaskType.Embedder && t !== TaskType.Supervisor && t !== TaskType.Router);
+
+export const createRouterTool = (routes: readonly string[]): FunctionDeclaration => ({
     name: 'route_task',
     description: 'Based on the user query, chat history, and complexity, select the single best agent and score the complexity.',
     parameters: {
@@ -11,7 +14,7 @@ export const ROUTER_TOOL: FunctionDeclaration = {
             route: {
                 type: Type.STRING,
                 description: 'The best agent to handle the request.',
-                enum: Object.values(TaskType).filter(t => t !== TaskType.Critique && t !== TaskType.Verifier && t !== TaskType.Reranker && t !== TaskType.Embedder && t !== TaskType.Supervisor && t !== TaskType.Router), // Internal agents + Router itself
+                enum: [...routes],
             },
             complexity_score: {
                 type: Type.NUMBER,
@@ -20,7 +23,9 @@ export const ROUTER_TOOL: FunctionDeclaration = {
         },
         required: ['route', 'complexity_score'],
     },
-};
+});
+
+export const ROUTER_TOOL: FunctionDeclaration = createRouterTool(ROUTABLE_AGENTS);
 
 // MANDATE 2.2
 export const AUTONOMOUS_RAG_TOOL: FunctionDeclaration = {
@@ -139,7 +144,7 @@ const allGraphNodes = [
   'A_FINAL'
 ];
 
-export const SUPERVISOR_ROUTER_TOOL: FunctionDeclaration = {
+export const createSupervisorRouterTool = (nodes: readonly string[]): FunctionDeclaration => ({
   name: 'route_next_step',
   description: 'The Supervisor\'s decision. Route to the single next agent node in the graph.',
   parameters: {
@@ -148,7 +153,7 @@ export const SUPERVISOR_ROUTER_TOOL: FunctionDeclaration = {
       agent_to_call: {
         type: Type.STRING,
         description: 'The next agent to execute, or "A_FINAL" to finish.',
-        enum: allGraphNodes,
+        enum: [...nodes],
       },
       reasoning: {
         type: Type.STRING,
@@ -157,4 +162,6 @@ export const SUPERVISOR_ROUTER_TOOL: FunctionDeclaration = {
     },
     required: ['agent_to_call', 'reasoning'],
   },
-};
+});
+
+export const SUPERVISOR_ROUTER_TOOL: FunctionDeclaration = createSupervisorRouterTool(allGraphNodes);
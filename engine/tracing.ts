@@ -0,0 +1,94 @@
+import { ExecutionTrace, SpanKind, TokenUsage, TraceSpan } from '../types';
+import { isAbortError } from './helpers';
+
+const randomHex = (bytes: number): string =>
+    Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+// FNV-1a: prompts are identified by hash so traces stay small and can be compared across runs.
+export const hashText = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const createTrace = (): ExecutionTrace => ({ traceId: randomHex(16), spans: [] });
+
+export const startSpan = (trace: ExecutionTrace, name: string, kind: SpanKind, parentId?: string, attributes: TraceSpan['attributes'] = {}): TraceSpan => {
+    const span: TraceSpan = { spanId: randomHex(8), parentId, name, kind, startTime: Date.now(), status: 'unset', attributes };
+    trace.spans.push(span);
+    return span;
+};
+
+export const endSpan = (span: TraceSpan, error?: unknown, attributes: TraceSpan['attributes'] = {}) => {
+    if (span.endTime !== undefined) return;
+    span.endTime = Date.now();
+    Object.assign(span.attributes, attributes);
+    if (error) {
+        span.status = 'error';
+        span.error = isAbortError(error) ? 'Cancelled by user.' : (error as Error)?.message ?? String(error);
+    } else {
+        span.status = 'ok';
+    }
+};
+
+// Spans left open by an interrupted run are closed so the trace stays well-formed.
+export const endOpenSpans = (trace: ExecutionTrace, reason: string) => {
+    trace.spans.filter(s => s.endTime === undefined).forEach(s => endSpan(s, new Error(reason)));
+};
+
+export const usageAttributes = (usage?: TokenUsage): TraceSpan['attributes'] => usage ? {
+    'llm.usage.prompt_tokens': usage.promptTokens,
+    'llm.usage.completion_tokens': usage.candidatesTokens,
+    'llm.usage.thoughts_tokens': usage.thoughtsTokens,
+    'llm.usage.total_tokens': usage.totalTokens,
+} : {};
+
+// The store holds a snapshot, since spans keep mutating while the run is live.
+export const snapshotTrace = (trace: ExecutionTrace): ExecutionTrace =>
+    ({ traceId: trace.traceId, spans: trace.spans.map(s => ({ ...s, attributes: { ...s.attributes } })) });
+
+// --- OpenTelemetry (OTLP/JSON) export ---
+
+const toOtlpValue = (value: string | number | boolean) => {
+    if (typeof value === 'boolean') return { boolValue: value };
+    if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+    return { stringValue: value };
+};
+
+const toUnixNano = (ms: number) => `${ms}000000`;
+
+// LLM and tool calls leave the process, so they are CLIENT spans; everything else is INTERNAL.
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { run: 1, supervisor: 1, step: 1, llm: 3, tool: 3 };
+
+export const toOtlpJson = (trace: ExecutionTrace, serviceName: string, serviceVersion: string) => ({
+    resourceSpans: [{
+        resource: {
+            attributes: [
+                { key: 'service.name', value: { stringValue: serviceName } },
+                { key: 'service.version', value: { stringValue: serviceVersion } },
+            ],
+        },
+        scopeSpans: [{
+            scope: { name: 'agentura.graph' },
+            spans: trace.spans.map(span => ({
+                traceId: trace.traceId,
+                spanId: span.spanId,
+                ...(span.parentId && { parentSpanId: span.parentId }),
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: toUnixNano(span.startTime),
+                endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+                attributes: [
+                    { key: 'agentura.span_kind', value: { stringValue: span.kind } },
+                    ...Object.entries(span.attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) })),
+                ],
+                status: span.status === 'error'
+                    ? { code: 2, message: span.error ?? '' }
+                    : { code: span.status === 'ok' ? 1 : 0 },
+            })),
+        }],
+    }],
+});
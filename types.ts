@@ -38,6 +38,17 @@ export enum Persona {
   Concise = 'Concise',
 }
 
+export type ModelProviderId = 'gemini' | 'openai' | 'scripted';
+
+export interface ProviderSettings {
+  override: ModelProviderId | null; // When set, every agent runs on this provider instead of the one in its roster entry
+  openai: {
+    baseUrl: string;
+    apiKey: string;
+    model: string; // Used for every agent while `override` is 'openai'
+  };
+}
+
 export interface GroundingSource {
   uri: string;
   title: string;
@@ -58,6 +69,9 @@ export interface ReflexionEntry {
   failed_output: string;
   critique: string;
   successful_fix: string;
+  source?: 'critique' | 'step_retry'; // What failure produced the lesson
+  createdAt?: number;
+  pinned?: boolean; // Recalled ahead of unpinned lessons, regardless of similarity
 }
 
 export interface RepoData {
@@ -73,20 +87,94 @@ export interface PlanStep {
   description: string;
   tool_to_use: string;
   acceptance_criteria: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'failed';
+  status: 'pending' | 'awaiting-approval' | 'in-progress' | 'completed' | 'failed' | 'cancelled' | 'skipped';
   dependencies: number[]; // DAG SUPPORT: This step depends on the completion of these step_ids.
   result?: string;
   inputs?: string[];
   output_key?: string;
   startTime?: number; // v4.3 Operator Overhaul
   endTime?: number;   // v4.3 Operator Overhaul
+  requires_approval?: boolean; // The scheduler pauses on this step until the user approves it
+  approved?: boolean;
+  verification?: StepVerification; // Verifier verdict on the latest result against acceptance_criteria
+  attempts?: StepAttempt[]; // One entry per execution, oldest first
+  kind?: 'agent' | 'subplan' | 'map'; // 'subplan' steps are expanded by the Planner, 'map' steps fan out over `map_over`
+  subplan?: Plan; // The steps a 'subplan' or 'map' step expanded into. Shares the root plan's id; step ids are unique across the whole tree
+  subplanReplans?: number; // Times the sub-plan was re-planned after one of its steps failed
+  condition?: StepCondition; // The step runs only if this holds; otherwise it is skipped, which still satisfies its dependents
+  map_over?: string; // Blackboard key of the upstream list a 'map' step runs once per item of
+  map_item?: string; // On the steps a 'map' step fans out into: the item this step handles
+  queue?: StepQueueState; // Set while the step waits for the scheduler to let it call its model
+}
+
+export interface StepQueueState {
+  model: string; // The provider and model the step is queued for
+  position: number; // 1 is next in line
+  waitingFor: 'slot' | 'rate_limit'; // A free concurrency slot, or a token from the model's rate limit
+}
+
+export type StepConditionOperator = 'contains' | 'not_contains' | 'greater_than' | 'less_than' | 'is_yes' | 'is_no';
+
+// A predicate on an upstream step's result
+export interface StepCondition {
+  step_id: number; // Must be one of the step's dependencies
+  operator: StepConditionOperator;
+  value?: string; // The keyword for contains/not_contains, the threshold for greater_than/less_than
+}
+
+export interface StepAttempt {
+  attempt: number;
+  description: string; // The description this attempt ran with (the Retry agent may rewrite it between attempts)
+  status: 'completed' | 'failed';
+  error?: string; // Execution error or verifier reason
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface StepVerification {
+  status: 'PASS' | 'FAIL';
+  reason: string;
+  checkedAt: number;
 }
 
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; reason?: string }
+  | { action: 'edit'; description: string }; // Approve with a rewritten description
+
 export interface Plan {
   id: string;
   plan: PlanStep[];
 }
 
+// One version of a run's plan. A version is updated with its final step states when it is replaced.
+export interface PlanRevision {
+  version: number; // 1 for the first plan
+  steps: PlanStep[];
+  createdAt: number;
+  trigger?: string; // The critique, rejection or edit that replaced the previous version
+}
+
+export type PlanStepChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface PlanStepDiff {
+  step_id: number;
+  change: PlanStepChange;
+  before?: PlanStep;
+  after?: PlanStep;
+  changedFields: ('description' | 'tool_to_use' | 'acceptance_criteria' | 'requires_approval')[];
+  addedDependencies: number[];
+  removedDependencies: number[];
+}
+
+export type PlanValidationErrorCode = 'empty_plan' | 'duplicate_step_id' | 'dangling_dependency' | 'cycle' | 'disallowed_agent' | 'unreachable_step' | 'nested_subplan' | 'invalid_condition' | 'invalid_map';
+
+export interface PlanValidationError {
+  code: PlanValidationErrorCode;
+  step_id?: number;
+  message: string;
+}
+
 export interface FunctionCall {
     id: string;
     name: string;
@@ -123,6 +211,33 @@ export interface VizSpec {
   categoryKey: string;
 }
 
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+// USD per million tokens. Thinking tokens are billed at the output rate.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// One model call, attributed to the agent that made it and the message (and run step) it served
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  taskType: TaskType;
+  provider: ModelProviderId;
+  model: string;
+  messageId: string; // The chat message the call is billed to; for graph runs, the message hosting the run
+  runId?: string;
+  stepId?: number;
+  usage: TokenUsage;
+  costUsd: number | null; // null when the model has no entry in the price table
+}
+
 export interface PyodideExecutionResult {
   stdout: string;
   stderr: string | null;
@@ -149,6 +264,83 @@ export interface ChatMessage {
   workflowState?: WorkflowState;
   vizSpec?: VizSpec;
   followUpSuggestions?: string[];
+  interruptedRun?: InterruptedRun;
+  planHistory?: PlanRevision[]; // Every version of `plan`, oldest first
+  usage?: TokenUsage; // Token counts reported by the model for the call that produced this message
+  trace?: ExecutionTrace;
+  debate?: DebateTranscript; // Set on the answer of a Round Table debate
+  routing?: RoutingDecision; // How the routing front door answered the user message before this one
+}
+
+// Simple queries are answered by the routed specialist directly; complex ones (and the Planner) run the full graph
+export interface RoutingDecision {
+  route: TaskType;
+  complexityScore: number | null; // Null when the route was forced with a command or the Router could not be reached
+  threshold: number; // The complexity threshold in effect when the decision was made
+  path: 'direct' | 'graph';
+  overridden?: boolean; // The user switched the path after the fact
+}
+
+// --- The Round Table ---
+
+export interface RoundTableSettings {
+  participants: number;
+  rounds: number; // Critique rounds after the opening proposals
+}
+
+// A roster agent arguing from a fixed point of view
+export interface RoundTablePersona {
+  name: string;
+  agent: TaskType;
+  instruction: string;
+}
+
+export interface DebateTurn {
+  persona: string; // RoundTablePersona.name
+  agent: TaskType;
+  content: string;
+  status: 'pending' | 'done' | 'failed';
+}
+
+export interface DebateRound {
+  round: number; // 1 is the opening proposals
+  kind: 'proposal' | 'critique';
+  turns: DebateTurn[];
+}
+
+export interface DebateTranscript {
+  topic: string;
+  participants: RoundTablePersona[];
+  rounds: DebateRound[];
+  totalRounds: number; // Including the opening proposals
+  synthesis?: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+}
+
+export type SpanKind = 'run' | 'supervisor' | 'step' | 'llm' | 'tool';
+
+export interface TraceSpan {
+  spanId: string;
+  parentId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number;
+  endTime?: number; // Unset while the span is open
+  status: 'unset' | 'ok' | 'error';
+  error?: string;
+  attributes: Record<string, string | number | boolean>;
+}
+
+// Every run, supervisor decision, plan step, LLM call and tool call of one message, as a flat list of linked spans.
+export interface ExecutionTrace {
+  traceId: string;
+  spans: TraceSpan[];
+}
+
+// Set on a graph message whose run was cut short by a page reload and has a checkpoint to resume from.
+export interface InterruptedRun {
+  resumeFromStep: number | null; // First unfinished plan step; null if the run never got a plan
+  savedAt: number;
 }
 
 export interface FileData {
@@ -172,6 +364,14 @@ export interface SessionState {
 // It's either a specialist agent (TaskType) or a terminal state.
 export type GraphNode = TaskType | 'A_FINAL' | 'USER_INPUT';
 
+// 'llm' asks the Supervisor model and falls back to the rules when it fails to route; 'rules' never calls the model
+export type SupervisorMode = 'llm' | 'rules';
+
+export interface SupervisorDecision {
+  agent: GraphNode;
+  reasoning: string;
+}
+
 // This is the main "state" object that will be passed around the graph.
 // It's the "memory" of the Supervisor.
 export interface GraphState {
@@ -182,4 +382,85 @@ export interface GraphState {
   lastOutput: any; // The raw output from the last-run agent
   nextAgent: GraphNode; // The "pointer" for the state machine
   error: string | null;
-}
\ No newline at end of file
+  blackboard: Record<string, string>; // Step results keyed by output_key, read back through each step's declared inputs
+  budget: RunBudget;
+  budgetUsage: BudgetUsage;
+  failedCritique?: { failed_output: string; critique: string }; // Last failing critique, kept until a later critique passes
+  pipeline?: PipelineRunState; // Set when a fixed pipeline, not the Supervisor, decides what runs next
+  roster?: TaskType[]; // Agents this run may use, fixed when it starts; unset on runs that predate roster enforcement
+  awaitingReview?: boolean; // The run stopped after planning so the user can review the plan before it executes
+}
+
+// A fixed sequence of graph nodes. Agent tasks are templates over {{user_prompt}} and {{final_output}};
+// Supervisor steps name a built-in operation instead of a prompt.
+export interface PipelineStep {
+  agent: TaskType;
+  task: string;
+}
+
+export type PipelineSupervisorTask = 'execute_plan' | 'generate_supervisor_report';
+
+export interface PipelineDefinition {
+  id: string;
+  title: string;
+  description: string;
+  roster: TaskType[]; // The only agents the pipeline's plans may use
+  steps: PipelineStep[];
+}
+
+export interface PipelineRunState {
+  id: string; // PipelineDefinition.id
+  stepIndex: number; // The step being executed
+  finalOutput?: any; // The plan's output, captured when execute_plan finishes
+}
+
+// Hard limits for a single runGraph call. When any is hit the run halts with its best partial result.
+export interface RunBudget {
+  maxIterations: number; // Passes through the Supervisor loop (parallel waves and routing decisions)
+  maxReplans: number; // Planner calls made after a plan already exists
+  maxTotalTokens: number;
+  maxWallClockMs: number;
+}
+
+export interface BudgetUsage {
+  iterations: number;
+  replans: number;
+  totalTokens: number;
+  startedAt: number;
+}
+
+// How often a failing step is rewritten and re-run before it is marked failed.
+export interface StepRetryPolicy {
+  maxAttempts: number; // Including the first attempt
+  baseDelayMs: number; // Doubled after every failed attempt
+  maxDelayMs: number;
+}
+
+// How plan steps share the models they call. Limits apply per provider and model, across all running graphs.
+export interface SchedulerSettings {
+  maxConcurrencyPerModel: number; // Steps calling the same model at once
+  requestsPerMinute: number; // Step starts per model per minute; a 429 pauses the model until it may retry
+  stepTimeoutMs: number; // A step attempt running longer than this fails and is retried; 0 disables the timeout
+}
+
+// Non-serializable companion to GraphState that lives only as long as a single runGraph call.
+export interface GraphRuntime {
+  controller: AbortController; // Aborting cancels in-flight streams and halts the Supervisor loop
+  state: GraphState;
+  trace: ExecutionTrace;
+  rootSpanId: string; // The span covering this runGraph call
+}
+
+// Progress reported by the orchestration engine (engine/orchestrator.ts) to whatever hosts it
+export type EngineEvent =
+  | { type: 'run_started'; runId: string }
+  | { type: 'run_report'; runId: string; report: string; trace: ExecutionTrace } // A pipeline's Supervisor report
+  | { type: 'run_finished'; runId: string; trace: ExecutionTrace }
+  | { type: 'plan_created'; runId: string; plan: Plan; trigger?: string; replaced?: Plan | null }
+  | { type: 'step_status'; planId: string; stepId: number; status: PlanStep['status']; result?: any }
+  | { type: 'step_chunk'; planId: string; stepId: number; text: string } // The step's streamed output so far
+  | { type: 'step_patch'; planId: string; stepId: number; patch: Partial<PlanStep> }
+  | { type: 'supervisor_decision'; runId: string; decision: SupervisorDecision; decidedBy: 'llm' | 'rules' }
+  | { type: 'message_chunk'; messageId: string; content: string; sources: GroundingSource[]; functionCalls: FunctionCall[] }
+  | { type: 'message_update'; messageId: string; update: Partial<ChatMessage> } // An answer, its routing, debate or follow-ups
+  | { type: 'model_call'; call: Pick<UsageRecord, 'taskType' | 'provider' | 'model' | 'messageId' | 'runId' | 'stepId'>; usage?: TokenUsage };
@@ -1,6 +1,6 @@
 import React, { useMemo } from 'react';
 import { SwarmMode, TaskType } from '../../types';
-import { AGENT_ROSTER } from '../../constants';
+import { AGENT_ROSTER, INTERNAL_AGENTS, SECURITY_SERVICE_ROSTER, ROUND_TABLE_PERSONAS } from '../../constants';
 import { 
     BrainCircuitIcon,
     PlannerSprite,
@@ -39,18 +39,6 @@ export const taskToIcon: Record<TaskType, React.FC<{className?: string}>> = {
     [TaskType.Router]: BrainCircuitIcon, // Internal
 };
 
-const SECURITY_SERVICE_ROSTER = [TaskType.Planner, TaskType.Research, TaskType.Code, TaskType.Critique];
-
-// --- Internal agents to hide from UI ---
-const INTERNAL_AGENTS = [
-    TaskType.Reranker,
-    TaskType.Embedder,
-    TaskType.Verifier,
-    TaskType.Retry,
-    TaskType.Supervisor,
-    TaskType.Router,
-];
-
 interface AgentRosterProps {
     swarmMode: SwarmMode;
     activeRoster: TaskType[];
@@ -63,8 +51,9 @@ export const AgentRoster: React.FC<AgentRosterProps> = ({ swarmMode, activeRoste
 
     const rosterToDisplay = useMemo(() => {
         const allAgents = Object.values(TaskType).filter(t => !INTERNAL_AGENTS.includes(t));
+        if (swarmMode === SwarmMode.TheRoundTable) return ROUND_TABLE_PERSONAS.map(p => p.agent);
         return isInformalMode ? allAgents : SECURITY_SERVICE_ROSTER;
-    }, [isInformalMode]);
+    }, [isInformalMode, swarmMode]);
     
     const activeRosterSet = useMemo(() => new Set(activeRoster), [activeRoster]);
 
@@ -84,6 +73,8 @@ export const AgentRoster: React.FC<AgentRosterProps> = ({ swarmMode, activeRoste
             <p className="text-xs text-muted-foreground mb-3 px-1">
                 {isInformalMode 
                     ? "Select agents for the 'Informal Collaborators' swarm." 
+                    : swarmMode === SwarmMode.TheRoundTable
+                    ? "The Round Table seats these agents as debaters; the Synthesizer moderates."
                     : "The 'Security Service' swarm uses a fixed, pre-defined roster."}
             </p>
             <ul className="space-y-3">
@@ -1,8 +1,8 @@
 
 import React, { useState, useRef } from 'react';
 import { FileData, TaskType, SwarmMode } from '../../types';
-import { readFileAsBase64 } from '../hooks/helpers';
-import { SendIcon, PaperclipIcon, XCircleIcon, GitHubIcon } from '../../components/Icons';
+import { readFileAsBase64 } from '../../engine/helpers';
+import { SendIcon, PaperclipIcon, XCircleIcon, GitHubIcon, StopIcon } from '../../components/Icons';
 import { useAppContext } from '../context/AppProvider'; // Import the context hook
 
 const gitHubRepoRegex = /https?:\/\/github\.com\/([a-zA-Z0-9-]+)\/([a-zA-Z0-9_.-]+)/;
@@ -31,7 +31,9 @@ export const ChatInput: React.FC = () => {
     handleIngestRepo,
     embeddingStatus,
     swarmMode,
-    isPyodideReady // Consume Pyodide state
+    isPyodideReady, // Consume Pyodide state
+    isGraphRunning,
+    handleStopGraph
   } = useAppContext();
 
   const [prompt, setPrompt] = useState('');
@@ -188,6 +190,11 @@ export const ChatInput: React.FC = () => {
                 <button onClick={handleSubmit} aria-label="Send message" disabled={isLoading || isEmbedding || (!prompt.trim() && !file) || !isPyodideReady} className="p-2 rounded-md transition-colors disabled:opacity-50 enabled:bg-primary enabled:hover:bg-primary/90 text-primary-foreground">
                     <SendIcon />
                 </button>
+                {isGraphRunning && (
+                    <button onClick={handleStopGraph} aria-label="Stop execution" title="Stop the running graph" className="ml-2 p-2 rounded-md transition-colors bg-destructive hover:bg-destructive/90 text-destructive-foreground">
+                        <StopIcon className="w-6 h-6" />
+                    </button>
+                )}
             </div>
         </div>
     </div>
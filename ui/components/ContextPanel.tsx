@@ -3,6 +3,14 @@ import { CommandPalette } from './CommandPalette';
 import { AgentGraphVisualizer } from './AgentGraphVisualizer';
 import { AgentRoster } from './AgentRoster';
 import { ArchiveManager } from './ArchiveManager';
+import { ReflexionManager } from './ReflexionManager';
+import { ProviderSettingsPanel } from './ProviderSettingsPanel';
+import { UsageDashboard } from './UsageDashboard';
+import { RoundTableSettingsPanel } from './RoundTableSettingsPanel';
+import { RouterSettingsPanel } from './RouterSettingsPanel';
+import { SupervisorSettingsPanel } from './SupervisorSettingsPanel';
+import { SchedulerSettingsPanel } from './SchedulerSettingsPanel';
+import { SwarmMode } from '../../types';
 import { useAppContext } from '../context/AppProvider'; // Import the context hook
 
 // All props are removed
@@ -31,14 +39,28 @@ export const ContextPanel: React.FC = () => {
                     </div>
                 );
             case 'roster':
-                return <AgentRoster 
+                return <>
+                    {swarmMode === SwarmMode.TheRoundTable && <RoundTableSettingsPanel />}
+                    {swarmMode === SwarmMode.InformalCollaborators && <RouterSettingsPanel />}
+                    {swarmMode === SwarmMode.InformalCollaborators && <SupervisorSettingsPanel />}
+                    <AgentRoster 
                             swarmMode={swarmMode} 
                             activeRoster={activeRoster} 
                             onRosterChange={setActiveRoster}
                             onShowAgentDetails={setExplainAgent}
-                       />;
+                       />
+                </>;
             case 'archive': 
                 return <ArchiveManager />;
+            case 'reflexion':
+                return <ReflexionManager />;
+            case 'models':
+                return <>
+                    <ProviderSettingsPanel />
+                    <SchedulerSettingsPanel />
+                </>;
+            case 'usage':
+                return <UsageDashboard />;
             default:
                 return null;
         }
@@ -49,8 +71,11 @@ export const ContextPanel: React.FC = () => {
             <div className="flex-shrink-0 flex items-stretch border-b border-border p-1 bg-muted/50">
                 <TabButton name="Agent Roster" view="roster" activeTab={activeTab} setActiveTab={setActiveTab} />
                 <TabButton name="Archive" view="archive" activeTab={activeTab} setActiveTab={setActiveTab} />
+                <TabButton name="Lessons" view="reflexion" activeTab={activeTab} setActiveTab={setActiveTab} />
                 <TabButton name="Commands" view="commands" activeTab={activeTab} setActiveTab={setActiveTab} />
                 <TabButton name="Graph" view="graph" activeTab={activeTab} setActiveTab={setActiveTab} />
+                <TabButton name="Models" view="models" activeTab={activeTab} setActiveTab={setActiveTab} />
+                <TabButton name="Usage" view="usage" activeTab={activeTab} setActiveTab={setActiveTab} />
             </div>
             <div className="flex-1 overflow-y-auto">
                 {renderView()}
@@ -59,7 +84,7 @@ export const ContextPanel: React.FC = () => {
     );
 };
 
-type View = 'commands' | 'graph' | 'roster' | 'archive';
+type View = 'commands' | 'graph' | 'roster' | 'archive' | 'reflexion' | 'models' | 'usage';
 
 const TabButton: React.FC<{ name: string, view: View, activeTab: View, setActiveTab: (v: View) => void }> = 
 ({ name, view, activeTab, setActiveTab }) => (
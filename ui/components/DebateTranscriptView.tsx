@@ -0,0 +1,53 @@
+import React from 'react';
+import { DebateRound, DebateTranscript } from '../../types';
+import { BrainCircuitIcon, CogIcon } from '../../components/Icons';
+import { taskToIcon } from './AgentRoster';
+
+const ROUND_TITLES: Record<DebateRound['kind'], string> = {
+    proposal: 'Opening proposals',
+    critique: 'Critiques & revisions',
+};
+
+// The debate as a thread per round: each participant's turn, in seating order
+export const DebateTranscriptView: React.FC<{ debate: DebateTranscript }> = ({ debate }) => {
+    const isRunning = debate.status === 'running';
+    const isModerating = isRunning && debate.rounds.length === debate.totalRounds && debate.rounds.every(r => r.turns.every(t => t.status !== 'pending'));
+
+    return (
+        <div className="mb-3 space-y-2 not-prose">
+            <div className="flex items-center gap-2 pb-2 border-b border-border/50">
+                <BrainCircuitIcon className="w-5 h-5 text-primary" />
+                <h3 className="text-sm font-bold text-card-foreground/90">The Round Table</h3>
+                <span className="text-xs text-muted-foreground">{debate.participants.map(p => p.name).join(' · ')}</span>
+            </div>
+            {debate.rounds.map(round => (
+                <details key={round.round} open={isRunning} className="text-xs">
+                    <summary className="cursor-pointer font-semibold text-muted-foreground hover:text-foreground">
+                        Round {round.round}: {ROUND_TITLES[round.kind]}
+                    </summary>
+                    <div className="mt-2 space-y-2 pl-3 border-l-2 border-primary/30">
+                        {round.turns.map(turn => {
+                            const Icon = taskToIcon[turn.agent] || BrainCircuitIcon;
+                            return (
+                                <div key={turn.persona} className={`p-2 rounded-md border ${turn.status === 'failed' ? 'border-destructive/60' : 'border-border/50'} bg-background/50`}>
+                                    <p className="flex items-center gap-2 font-semibold text-foreground">
+                                        <Icon className="w-4 h-4 text-primary" />
+                                        {turn.persona}
+                                        <span className="font-normal text-muted-foreground">({turn.agent})</span>
+                                        {turn.status === 'pending' && <CogIcon className="w-3.5 h-3.5 text-primary animate-spin" />}
+                                    </p>
+                                    {turn.status !== 'pending' && (
+                                        <p className={`mt-1 whitespace-pre-wrap ${turn.status === 'failed' ? 'text-red-400' : 'text-foreground/80'}`}>{turn.content}</p>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </details>
+            ))}
+            {isModerating && (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground"><CogIcon className="w-3.5 h-3.5 text-primary animate-spin" /> The Moderator is synthesizing the final answer...</p>
+            )}
+        </div>
+    );
+};
@@ -1,19 +1,26 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { SwarmMode } from '../../types';
 import { APP_TITLE } from '../../constants';
 import { useAppContext } from '../context/AppProvider'; // Import the context hook
+import { CassetteMode } from '../../engine/providers/cassette';
 
 // All props are removed
 export const Header: React.FC = () => {
   // Get all state and handlers from the global context
   const {
     swarmMode,
-    handleSwarmModeChange,
+    setSwarmMode,
     isLoading,
     messages,
     setIsGuideOpen,
     handleExportSession,
+    cassetteMode,
+    cassetteEntryCount,
+    setCassetteMode,
+    loadCassette,
+    exportCassette,
   } = useAppContext();
+  const cassetteInputRef = useRef<HTMLInputElement>(null);
 
   const lastMessage = messages[messages.length - 1];
   const currentTask = (isLoading && lastMessage?.taskType) ? lastMessage.taskType : 'Idle';
@@ -50,7 +57,7 @@ export const Header: React.FC = () => {
               {Object.values(SwarmMode).map((m) => (
                 <button
                   key={m}
-                  onClick={() => handleSwarmModeChange(m)}
+                  onClick={() => setSwarmMode(m)}
                   className={`px-2 py-1 text-xs font-medium rounded-sm transition-colors duration-200 ${
                     swarmMode === m ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-card'
                   }`}
@@ -73,6 +80,35 @@ export const Header: React.FC = () => {
             >
                 Export Session
             </button>
+            <div className="flex items-center bg-background rounded-md p-1 border border-border" title="Record every model call to a cassette file, or replay one offline">
+              <span className="text-xs text-muted-foreground px-2">Cassette:</span>
+              {(['off', 'record', 'replay'] as CassetteMode[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => m === 'replay' && cassetteMode !== 'replay' ? cassetteInputRef.current?.click() : setCassetteMode(m)}
+                  className={`px-2 py-1 text-xs font-medium rounded-sm capitalize transition-colors duration-200 ${
+                    cassetteMode === m ? (m === 'record' ? 'bg-destructive text-primary-foreground' : 'bg-muted text-foreground') : 'text-muted-foreground hover:bg-card'
+                  }`}
+                >
+                  {m}
+                </button>
+              ))}
+              {cassetteMode !== 'off' && <span className="text-xs text-muted-foreground px-2">{cassetteEntryCount} calls</span>}
+              {cassetteMode === 'record' && cassetteEntryCount > 0 && (
+                <button onClick={exportCassette} className="px-2 py-1 text-xs text-muted-foreground hover:text-foreground">Save</button>
+              )}
+              <input
+                ref={cassetteInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadCassette(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
         </div>
     </header>
   );
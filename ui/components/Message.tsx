@@ -1,12 +1,83 @@
 
-import React from 'react';
-import { ChatMessage, FunctionCall, Plan, CritiqueResult, GroundingSource, RepoData, RagSource, TaskType, PyodideExecutionResult } from '../../types';
-import { CodeBracketIcon, PerceptionIcon, CritiqueIcon, SearchIcon, PlayIcon, RetryIcon, GitHubIcon, BrainCircuitIcon, ClockIcon, CogIcon, CheckCircleIcon, XCircleIcon } from '../../components/Icons';
+import React, { useState } from 'react';
+import { ChatMessage, FunctionCall, Plan, CritiqueResult, GroundingSource, RepoData, RagSource, TaskType, PyodideExecutionResult, InterruptedRun, PlanStep, ApprovalDecision, ExecutionTrace, RoutingDecision } from '../../types';
+import { CodeBracketIcon, PerceptionIcon, CritiqueIcon, SearchIcon, PlayIcon, RetryIcon, GitHubIcon, BrainCircuitIcon, ClockIcon, CogIcon, CheckCircleIcon, XCircleIcon, LockIcon, StepOverIcon } from '../../components/Icons';
 import { Visualization } from './Visualization';
 import { PlanGraphVisualizer } from './PlanGraphVisualizer'; // Import the new component
 import { AGENT_ROSTER } from '../../constants';
 import { taskToIcon } from './AgentRoster';
 import { FollowUpSuggestions } from './FollowUpSuggestions';
+import { TraceViewer } from './TraceViewer';
+import { PlanEditor } from './PlanEditor';
+import { PlanHistoryView } from './PlanHistoryView';
+import { DebateTranscriptView } from './DebateTranscriptView';
+import { useAppContext } from '../context/AppProvider';
+import { summarizeUsage, formatCost } from '../hooks/usageLedger';
+import { describeCondition, isMapStep, isStepSettled } from '../../engine/planUtils';
+
+// Tokens and cost of every model call billed to this message (for a graph run, the whole run)
+const MessageCostBadge: React.FC<{ messageId: string }> = ({ messageId }) => {
+    const { usageRecords } = useAppContext();
+    const records = usageRecords.filter(r => r.messageId === messageId);
+    if (records.length === 0) return null;
+    const summary = summarizeUsage(records);
+    const title = `${summary.calls} model call${summary.calls === 1 ? '' : 's'} · prompt ${summary.promptTokens.toLocaleString()} · output ${summary.candidatesTokens.toLocaleString()} · thinking ${summary.thoughtsTokens.toLocaleString()}`
+        + (summary.unpricedCalls > 0 ? ` · ${summary.unpricedCalls} call(s) on unpriced models` : '');
+    return (
+        <div className="mt-2 flex justify-end">
+            <span title={title} className="text-[10px] font-mono text-muted-foreground bg-background border border-border/60 rounded-full px-2 py-0.5">
+                {summary.totalTokens.toLocaleString()} tokens · {formatCost(summary.costUsd)}{summary.unpricedCalls > 0 ? '+' : ''}
+            </span>
+        </div>
+    );
+};
+
+// How the routing front door handled the question, with a one-click switch to the other path
+const RoutingBadge: React.FC<{ messageId: string; routing: RoutingDecision }> = ({ messageId, routing }) => {
+    const { handleOverrideRouting, isLoading } = useAppContext();
+    const score = routing.complexityScore === null ? 'forced' : `complexity ${routing.complexityScore}/10`;
+    const directRoute = routing.route === TaskType.Planner ? TaskType.Chat : routing.route;
+    return (
+        <div className="mb-2 flex flex-wrap items-center gap-2 text-[10px] font-mono text-muted-foreground">
+            <span className="bg-background border border-border/60 rounded-full px-2 py-0.5" title={`Queries at or below complexity ${routing.threshold} are answered directly`}>
+                Router → {routing.route} · {score} · {routing.path === 'direct' ? 'answered directly' : 'full graph'}{routing.overridden ? ' (overridden)' : ''}
+            </span>
+            <button onClick={() => handleOverrideRouting(messageId)} disabled={isLoading} className="hover:text-foreground underline underline-offset-2 disabled:opacity-50 disabled:no-underline">
+                {routing.path === 'direct' ? 'Run the full graph instead' : `Answer directly with ${directRoute} instead`}
+            </button>
+        </div>
+    );
+};
+
+// Approve / Reject / Edit controls for a step paused on its approval gate
+const StepApprovalControls: React.FC<{ step: PlanStep; onDecide: (decision: ApprovalDecision) => void }> = ({ step, onDecide }) => {
+    const [mode, setMode] = useState<'idle' | 'reject' | 'edit'>('idle');
+    const [text, setText] = useState('');
+
+    if (mode !== 'idle') {
+        const submit = () => {
+            onDecide(mode === 'reject' ? { action: 'reject', reason: text.trim() || undefined } : { action: 'edit', description: text.trim() || step.description });
+            setMode('idle');
+        };
+        return (
+            <div className="mt-2 pt-2 border-t border-border/50 space-y-2">
+                <textarea value={text} onChange={e => setText(e.target.value)} rows={mode === 'edit' ? 3 : 2} placeholder={mode === 'reject' ? 'Why should this step not run? (optional)' : 'New step description'} className="w-full text-xs bg-background border border-border rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+                <div className="flex gap-2 text-xs">
+                    <button onClick={submit} className={`${mode === 'reject' ? 'bg-destructive hover:bg-destructive/90' : 'bg-primary hover:bg-primary/90'} text-primary-foreground px-3 py-1 rounded-md transition-colors`}>{mode === 'reject' ? 'Reject step' : 'Approve edited step'}</button>
+                    <button onClick={() => setMode('idle')} className="text-muted-foreground hover:text-foreground px-2 py-1 rounded-md transition-colors">Cancel</button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-2 pt-2 border-t border-border/50 flex gap-2 text-xs">
+            <button onClick={() => onDecide({ action: 'approve' })} className="bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1 rounded-md transition-colors flex items-center gap-1.5"><PlayIcon className="w-3 h-3"/> Approve</button>
+            <button onClick={() => { setText(''); setMode('reject'); }} className="bg-destructive/80 hover:bg-destructive text-primary-foreground px-3 py-1 rounded-md transition-colors">Reject</button>
+            <button onClick={() => { setText(step.description); setMode('edit'); }} className="text-muted-foreground hover:text-foreground border border-border px-3 py-1 rounded-md transition-colors">Edit</button>
+        </div>
+    );
+};
 
 export const Message: React.FC<{ 
     message: ChatMessage;
@@ -14,8 +85,14 @@ export const Message: React.FC<{
     onExecutePlan: (plan: Plan) => void;
     onRetryPlan: (plan: Plan) => void;
     onRequestFeedback: (messageId: string, taskType: TaskType) => void;
-}> = ({ message, onExecuteCode, onExecutePlan, onRetryPlan, onRequestFeedback }) => {
+    onResumeRun: (messageId: string) => void;
+    onDiscardRun: (messageId: string) => void;
+    onStepApproval: (planId: string, stepId: number, decision: ApprovalDecision) => void;
+    onToggleStepApproval: (planId: string, stepId: number) => void;
+}> = ({ message, onExecuteCode, onExecutePlan, onRetryPlan, onRequestFeedback, onResumeRun, onDiscardRun, onStepApproval, onToggleStepApproval }) => {
   const isUser = message.role === 'user';
+  const [isEditingPlan, setIsEditingPlan] = useState(false);
+  const { isLoading } = useAppContext();
 
   const renderContent = (content: string) => (
     <>
@@ -37,6 +114,31 @@ export const Message: React.FC<{
     </div>
   );
 
+  const renderTrace = (trace: ExecutionTrace) => (
+    <div className="mt-3 pt-3 border-t border-border/50">
+      <details className="text-xs">
+        <summary className="cursor-pointer font-semibold text-muted-foreground mb-2 flex items-center gap-2">
+          <ClockIcon className="w-4 h-4" /> Execution Trace
+        </summary>
+        <TraceViewer trace={trace} />
+      </details>
+    </div>
+  );
+
+  const renderInterruptedRun = (run: InterruptedRun) => (
+    <div className="mb-3 p-3 bg-yellow-600/10 rounded-md border border-yellow-600/60 text-xs flex items-center justify-between gap-3">
+      <p className="text-foreground/90">
+        This run was interrupted by a page reload. Progress was checkpointed at {new Date(run.savedAt).toLocaleTimeString()}.
+      </p>
+      <div className="flex gap-2 flex-shrink-0">
+        <button onClick={() => onResumeRun(message.id)} className="bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1 rounded-md transition-colors flex items-center gap-1.5">
+          <PlayIcon className="w-3 h-3"/> {run.resumeFromStep !== null ? `Resume from step ${run.resumeFromStep}` : 'Resume run'}
+        </button>
+        <button onClick={() => onDiscardRun(message.id)} className="text-muted-foreground hover:text-foreground px-2 py-1 rounded-md transition-colors">Discard</button>
+      </div>
+    </div>
+  );
+
   const renderRepo = (repo: RepoData) => (
     <div className="mb-2">
       <div className="text-xs font-semibold text-muted-foreground mb-1 flex items-center gap-2"><GitHubIcon className="w-4 h-4" /> Repository Provided:</div>
@@ -78,18 +180,114 @@ export const Message: React.FC<{
     </div>
   );
 
+  // Sub-plan and map steps render their own steps nested beneath them
+  const renderStep = (step: PlanStep, planId: string): React.ReactNode => {
+    const duration = step.startTime && step.endTime ? `${((step.endTime - step.startTime) / 1000).toFixed(2)}s` : null;
+    let StatusIcon, statusColor = "text-muted-foreground";
+    switch (step.status) {
+      case 'in-progress': [StatusIcon, statusColor] = step.queue ? [ClockIcon, 'text-amber-500'] : [CogIcon, 'text-primary animate-spin']; break;
+      case 'completed': StatusIcon = CheckCircleIcon; statusColor = 'text-green-500'; break;
+      case 'failed': StatusIcon = XCircleIcon; statusColor = 'text-destructive'; break;
+      case 'cancelled': StatusIcon = XCircleIcon; statusColor = 'text-muted-foreground'; break;
+      case 'awaiting-approval': StatusIcon = LockIcon; statusColor = 'text-amber-500'; break;
+      case 'skipped': StatusIcon = StepOverIcon; statusColor = 'text-muted-foreground/60'; break;
+      default: StatusIcon = ClockIcon;
+    }
+    const hasResult = step.result && step.result !== 'Validated.' && step.result !== 'Executing...' && step.status !== 'awaiting-approval';
+    const canToggleGate = step.status === 'pending' || step.status === 'awaiting-approval';
+
+    return (
+      <div key={step.step_id} className={`p-3 bg-card/70 rounded-md border ${step.status === 'failed' ? 'border-destructive' : 'border-border'}`}>
+        <div className="flex items-start gap-3">
+          <StatusIcon className={`w-5 h-5 mt-1 flex-shrink-0 ${statusColor}`} />
+          <div className="flex-1">
+            <p className="font-semibold text-foreground">Step {step.step_id}: {step.description}</p>
+            <div className="text-xs text-muted-foreground mt-1">
+              {step.kind === 'subplan'
+                ? <>Sub-plan{step.subplanReplans ? <span className="ml-1">(re-planned {step.subplanReplans}×)</span> : null}</>
+                : <>Tool: <span className="font-medium text-foreground/80">{step.tool_to_use}</span></>}
+              {isMapStep(step) && <span className="ml-2 pl-2 border-l border-border/50">Map over <span className="font-mono text-foreground/80">{step.map_over}</span></span>}
+              {step.condition && <span className="ml-2 pl-2 border-l border-border/50">Runs if {describeCondition(step.condition)}</span>}
+              {duration && <span className="ml-2 pl-2 border-l border-border/50">Duration: {duration}</span>}
+              {step.queue && (
+                <span className="ml-2 pl-2 border-l border-border/50 text-amber-500" title={step.queue.waitingFor === 'slot' ? 'Waiting for a free concurrency slot' : 'Waiting for the rate limit'}>
+                  Queued #{step.queue.position} for <span className="font-mono">{step.queue.model}</span>{step.queue.waitingFor === 'rate_limit' && ' (rate limited)'}
+                </span>
+              )}
+            </div>
+            {step.verification && (
+              <p className={`text-xs mt-1 ${step.verification.status === 'PASS' ? 'text-green-500' : 'text-red-400'}`}>
+                <span className={`font-bold px-1.5 py-0.5 rounded-sm mr-1.5 ${step.verification.status === 'PASS' ? 'bg-green-500/10' : 'bg-destructive/10'}`}>{step.verification.status}</span>
+                {step.verification.reason}
+              </p>
+            )}
+            {step.attempts && step.attempts.length > 1 && (
+              <details className="text-xs mt-1 text-muted-foreground">
+                <summary className="cursor-pointer hover:text-foreground">{step.attempts.length} attempts</summary>
+                <ol className="mt-1 space-y-1 pl-2 border-l border-border/50">
+                  {step.attempts.map(a => (
+                    <li key={a.attempt}>
+                      <span className={a.status === 'completed' ? 'text-green-500' : 'text-red-400'}>#{a.attempt} {a.status}</span>
+                      {a.error && <span>: {a.error}</span>}
+                      <p className="text-foreground/70 italic">{a.description}</p>
+                    </li>
+                  ))}
+                </ol>
+              </details>
+            )}
+          </div>
+          {canToggleGate && (
+            <button onClick={() => onToggleStepApproval(planId, step.step_id)} title={step.requires_approval ? 'Remove approval gate' : 'Require approval before this step runs'} className={`p-1 rounded-md transition-colors ${step.requires_approval ? 'text-amber-500 hover:text-amber-400' : 'text-muted-foreground/40 hover:text-muted-foreground'}`}>
+              <LockIcon className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {step.status === 'awaiting-approval' && (
+          <StepApprovalControls step={step} onDecide={(decision) => onStepApproval(planId, step.step_id, decision)} />
+        )}
+        {step.subplan && (
+          <details open={step.status !== 'completed'} className="mt-2 pt-2 border-t border-border/50">
+            <summary className="text-xs font-semibold text-muted-foreground cursor-pointer hover:text-foreground">{isMapStep(step) ? `Items (${step.subplan.plan.length})` : `Sub-plan (${step.subplan.plan.length} steps)`}</summary>
+            <div className="mt-2 space-y-2 pl-3 border-l-2 border-primary/30">
+              {step.subplan.plan.map(child => renderStep(child, planId))}
+            </div>
+          </details>
+        )}
+        {hasResult && (
+          <div className="mt-2 pt-2 border-t border-border/50">
+            <p className={`text-xs mb-1 font-semibold ${step.status === 'failed' ? 'text-red-400' : 'text-muted-foreground'}`}>Result:</p>
+            <pre className="text-xs whitespace-pre-wrap font-mono bg-background p-2 rounded-md max-h-40 overflow-y-auto">
+              <code>{step.result}{step.status === 'in-progress' && <span className="animate-pulse">|</span>}</code>
+            </pre>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderPlan = (plan: Plan) => {
     const hasFailedStep = plan.plan.some(p => p.status === 'failed');
     const isRunning = plan.plan.some(p => p.status === 'in-progress');
-    const isComplete = plan.plan.every(p => p.status === 'completed');
+    const isAwaitingApproval = plan.plan.some(p => p.status === 'awaiting-approval');
+    const isCancelled = !isRunning && plan.plan.some(p => p.status === 'cancelled');
+    const isComplete = plan.plan.every(isStepSettled);
     const isPending = !isComplete && plan.plan.every(p => p.status === 'pending' || p.result === 'Validated.');
 
     let overallStatus = "";
     if (hasFailedStep) overallStatus = "Plan Failed";
+    else if (isAwaitingApproval) overallStatus = "Awaiting Approval";
     else if (isRunning) overallStatus = "Plan Executing...";
+    else if (isCancelled) overallStatus = "Plan Cancelled";
     else if (isComplete) overallStatus = "Plan Complete";
     else if (isPending) overallStatus = "Awaiting Execution";
 
+    // Editing or starting the plan while a run is active on it would start a second run on the same message
+    const isRunActive = isLoading || !!message.isLoading;
+
+    if (isEditingPlan && isPending && !isRunActive) {
+      return <PlanEditor plan={plan} onCancel={() => setIsEditingPlan(false)} onExecute={(edited) => { setIsEditingPlan(false); onExecutePlan(edited); }} />;
+    }
+
     return (
       <div className="mt-2 space-y-3">
         <div className="flex justify-between items-center">
@@ -98,49 +296,19 @@ export const Message: React.FC<{
             {overallStatus && <p className="text-xs text-muted-foreground">{overallStatus}</p>}
           </div>
           {isPending && !hasFailedStep && (
-            <button onClick={() => onExecutePlan(plan)} className="text-xs bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1 rounded-md transition-colors flex items-center gap-1.5"><PlayIcon className="w-3 h-3"/> Run Plan</button>
+            <div className="flex gap-2">
+              <button onClick={() => setIsEditingPlan(true)} disabled={isRunActive} className="text-xs text-muted-foreground hover:text-foreground border border-border px-3 py-1 rounded-md transition-colors disabled:opacity-50">Edit Plan</button>
+              <button onClick={() => onExecutePlan(plan)} disabled={isRunActive} className="text-xs bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1 rounded-md transition-colors flex items-center gap-1.5 disabled:opacity-50"><PlayIcon className="w-3 h-3"/> Run Plan</button>
+            </div>
           )}
-          {hasFailedStep && (
+          {(hasFailedStep || isCancelled) && (
             <button onClick={() => onRetryPlan(plan)} className="text-xs bg-yellow-600/80 hover:bg-yellow-600 text-white px-3 py-1 rounded-md transition-colors flex items-center gap-1.5"><RetryIcon className="w-3 h-3"/> Self-Correct & Retry</button>
           )}
         </div>
         
-        <PlanGraphVisualizer plan={plan} />
-
-        {plan.plan.map((step) => {
-          const duration = step.startTime && step.endTime ? `${((step.endTime - step.startTime) / 1000).toFixed(2)}s` : null;
-          let StatusIcon, statusColor = "text-muted-foreground";
-          switch (step.status) {
-            case 'in-progress': StatusIcon = CogIcon; statusColor = 'text-primary animate-spin'; break;
-            case 'completed': StatusIcon = CheckCircleIcon; statusColor = 'text-green-500'; break;
-            case 'failed': StatusIcon = XCircleIcon; statusColor = 'text-destructive'; break;
-            default: StatusIcon = ClockIcon;
-          }
-          const hasResult = step.result && step.result !== 'Validated.' && step.result !== 'Executing...';
+        <PlanGraphVisualizer plan={plan} onToggleApproval={(stepId) => onToggleStepApproval(plan.id, stepId)} />
 
-          return (
-            <div key={step.step_id} className={`p-3 bg-card/70 rounded-md border ${step.status === 'failed' ? 'border-destructive' : 'border-border'}`}>
-              <div className="flex items-start gap-3">
-                <StatusIcon className={`w-5 h-5 mt-1 flex-shrink-0 ${statusColor}`} />
-                <div className="flex-1">
-                  <p className="font-semibold text-foreground">Step {step.step_id}: {step.description}</p>
-                  <div className="text-xs text-muted-foreground mt-1">
-                    Tool: <span className="font-medium text-foreground/80">{step.tool_to_use}</span>
-                    {duration && <span className="ml-2 pl-2 border-l border-border/50">Duration: {duration}</span>}
-                  </div>
-                </div>
-              </div>
-              {hasResult && (
-                <div className="mt-2 pt-2 border-t border-border/50">
-                  <p className={`text-xs mb-1 font-semibold ${step.status === 'failed' ? 'text-red-400' : 'text-muted-foreground'}`}>Result:</p>
-                  <pre className="text-xs whitespace-pre-wrap font-mono bg-background p-2 rounded-md max-h-40 overflow-y-auto">
-                    <code>{step.result}{step.status === 'in-progress' && <span className="animate-pulse">|</span>}</code>
-                  </pre>
-                </div>
-              )}
-            </div>
-          );
-        })}
+        {plan.plan.map(step => renderStep(step, plan.id))}
       </div>
     );
   };
@@ -226,8 +394,12 @@ export const Message: React.FC<{
             </div>
           )}
           
+          {message.routing && <RoutingBadge messageId={message.id} routing={message.routing} />}
+          {message.interruptedRun && renderInterruptedRun(message.interruptedRun)}
+
           <div className="prose prose-invert prose-sm max-w-none text-foreground">
             {message.repo && renderRepo(message.repo)}
+            {message.debate && <DebateTranscriptView debate={message.debate} />}
             {message.plan ? renderPlan(message.plan)
               : message.functionCalls && message.functionCalls.length > 0 ? renderFunctionCalls(message.functionCalls)
               : message.critique ? renderCritique(message.critique)
@@ -238,7 +410,10 @@ export const Message: React.FC<{
           
           {message.sources && message.sources.length > 0 && renderSources(message.sources)}
           {message.ragSources && message.ragSources.length > 0 && renderRagSources(message.ragSources)}
+          {message.planHistory && message.planHistory.length > 1 && <PlanHistoryView history={message.planHistory} />}
           {message.supervisorReport && renderSupervisorReport(message.supervisorReport)}
+          {message.trace && renderTrace(message.trace)}
+          {!isUser && message.role !== 'tool' && <MessageCostBadge messageId={message.id} />}
           {!isUser && message.role !== 'tool' && !message.isLoading && message.content && (
             <>
               <FollowUpSuggestions message={message} />
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { Plan, PlanStep, PlanValidationError, TaskType } from '../../types';
+import { AGENT_ROSTER } from '../../constants';
+import { useAppContext } from '../context/AppProvider';
+import { PlanGraphVisualizer } from './PlanGraphVisualizer';
+import { clonePlan, describeCondition, isMapStep, isSubplanStep, renumberPlanSteps, validatePlan } from '../../engine/planUtils';
+import { getEnabledAgents, getPlanAgents } from '../../engine/roster';
+import { PlayIcon } from '../../components/Icons';
+
+// Edits a plan that has not run yet. Dependencies can be toggled per step or drawn in the graph;
+// the edited plan is validated like Planner output before it is handed to `onExecute`.
+export const PlanEditor: React.FC<{ plan: Plan; onExecute: (plan: Plan) => void; onCancel: () => void }> = ({ plan, onExecute, onCancel }) => {
+    const { activeRoster } = useAppContext();
+    const [steps, setSteps] = useState<PlanStep[]>(() => clonePlan(plan).plan);
+    const [errors, setErrors] = useState<PlanValidationError[]>([]);
+
+    // The same agents a run's plan validation allows
+    const allowedAgents = useMemo(() => getPlanAgents(getEnabledAgents(activeRoster)), [activeRoster]);
+
+    const update = (next: PlanStep[]) => {
+        setSteps(next);
+        setErrors([]);
+    };
+    const patchStep = (stepId: number, patch: Partial<PlanStep>) => update(steps.map(s => s.step_id === stepId ? { ...s, ...patch } : s));
+
+    const toggleDependency = (fromStepId: number, toStepId: number, present: boolean) => update(steps.map(s => {
+        if (s.step_id !== toStepId) return s;
+        const dependencies = (s.dependencies || []).filter(id => id !== fromStepId);
+        return { ...s, dependencies: present ? [...dependencies, fromStepId] : dependencies };
+    }));
+
+    const moveStep = (index: number, offset: number) => {
+        const next = [...steps];
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        update(renumberPlanSteps(next));
+    };
+
+    const addStep = () => update(renumberPlanSteps([...steps, {
+        step_id: Math.max(0, ...steps.map(s => s.step_id)) + 1,
+        description: '',
+        tool_to_use: allowedAgents[0] ?? TaskType.Chat,
+        acceptance_criteria: '',
+        status: 'pending',
+        dependencies: [],
+    }]));
+
+    const deleteStep = (stepId: number) => update(renumberPlanSteps(steps.filter(s => s.step_id !== stepId)));
+
+    const handleRun = () => {
+        const validationErrors = validatePlan(steps, allowedAgents, true);
+        if (validationErrors.length > 0) {
+            setErrors(validationErrors);
+            return;
+        }
+        onExecute({ ...plan, plan: steps });
+    };
+
+    const inputClass = "w-full text-xs bg-background border border-border rounded-md p-2 focus:outline-none focus:ring-1 focus:ring-primary";
+    const editedPlan = useMemo(() => ({ ...plan, plan: steps }), [plan, steps]);
+
+    return (
+        <div className="mt-2 space-y-3">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h4 className="text-sm font-semibold text-card-foreground">Editing Plan</h4>
+                    <p className="text-xs text-muted-foreground">Use the graph toolbar to add or delete dependency edges.</p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onCancel} className="text-xs text-muted-foreground hover:text-foreground border border-border px-3 py-1 rounded-md transition-colors">Cancel</button>
+                    <button onClick={handleRun} className="text-xs bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1 rounded-md transition-colors flex items-center gap-1.5"><PlayIcon className="w-3 h-3"/> Validate & Run</button>
+                </div>
+            </div>
+
+            <PlanGraphVisualizer
+                plan={editedPlan}
+                onAddDependency={(from, to) => toggleDependency(from, to, true)}
+                onRemoveDependency={(from, to) => toggleDependency(from, to, false)}
+            />
+
+            {errors.length > 0 && (
+                <div className="p-2 text-xs bg-destructive/10 border border-destructive/50 rounded-md space-y-1">
+                    <p className="font-semibold text-destructive">The plan cannot run yet:</p>
+                    {errors.map((e, i) => <p key={i} className="text-foreground/80">{e.message}</p>)}
+                </div>
+            )}
+
+            {steps.map((step, index) => {
+                const hasError = errors.some(e => e.step_id === step.step_id);
+                return (
+                    <div key={step.step_id} className={`p-3 bg-card/70 rounded-md border space-y-2 ${hasError ? 'border-destructive' : 'border-border'}`}>
+                        <div className="flex items-center justify-between">
+                            <p className="font-semibold text-foreground text-sm">Step {step.step_id}</p>
+                            <div className="flex gap-1 text-xs">
+                                <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="px-2 py-0.5 border border-border rounded-md text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move up">↑</button>
+                                <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="px-2 py-0.5 border border-border rounded-md text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move down">↓</button>
+                                <button onClick={() => deleteStep(step.step_id)} className="px-2 py-0.5 border border-destructive/50 rounded-md text-destructive hover:bg-destructive/10" title="Delete step">Delete</button>
+                            </div>
+                        </div>
+                        <textarea value={step.description} onChange={e => patchStep(step.step_id, { description: e.target.value })} rows={2} placeholder="What this step should do" className={inputClass} />
+                        <textarea value={step.acceptance_criteria} onChange={e => patchStep(step.step_id, { acceptance_criteria: e.target.value })} rows={2} placeholder="Acceptance criteria" className={inputClass} />
+                        {(step.condition || isMapStep(step)) && (
+                            <p className="text-xs text-muted-foreground">
+                                {isMapStep(step) && <>Runs once per item of <span className="font-mono text-foreground/80">{step.map_over}</span>. </>}
+                                {step.condition && <>Runs only if {describeCondition(step.condition)}.</>}
+                            </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                            <label className="text-muted-foreground">Agent</label>
+                            {isSubplanStep(step) ? <span className="text-foreground/80">Sub-plan (expanded by the Planner when reached)</span> : <select value={step.tool_to_use} onChange={e => patchStep(step.step_id, { tool_to_use: e.target.value })} className="text-xs bg-background border border-border rounded-md p-1 focus:outline-none focus:ring-1 focus:ring-primary">
+                                {/* A step assigned outside the active roster keeps its agent visible, and fails validation */}
+                                {!allowedAgents.includes(step.tool_to_use as TaskType) && <option value={step.tool_to_use}>{step.tool_to_use} (not in roster)</option>}
+                                {allowedAgents.map(agent => <option key={agent} value={agent}>{AGENT_ROSTER[agent]?.title ?? agent}</option>)}
+                            </select>}
+                            {steps.length > 1 && <label className="text-muted-foreground ml-2">Depends on</label>}
+                            {steps.filter(s => s.step_id !== step.step_id).map(other => {
+                                const isDependency = (step.dependencies || []).includes(other.step_id);
+                                return (
+                                    <button
+                                        key={other.step_id}
+                                        onClick={() => toggleDependency(other.step_id, step.step_id, !isDependency)}
+                                        className={`px-2 py-0.5 rounded-md border transition-colors ${isDependency ? 'bg-primary/20 border-primary text-foreground' : 'border-border text-muted-foreground hover:text-foreground'}`}
+                                    >
+                                        {other.step_id}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+
+            <button onClick={addStep} className="w-full text-xs border border-dashed border-border rounded-md py-2 text-muted-foreground hover:text-foreground hover:border-primary transition-colors">+ Add step</button>
+        </div>
+    );
+};
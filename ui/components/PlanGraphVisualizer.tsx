@@ -1,6 +1,7 @@
 
 import React, { useRef, useEffect } from 'react';
-import { Plan } from '../../types';
+import { Plan, PlanStep } from '../../types';
+import { describeCondition, flattenPlanSteps, isMapStep, isStepSettled } from '../../engine/planUtils';
 
 declare const vis: any; // vis-network is loaded from index.html
 
@@ -9,46 +10,106 @@ const STATUS_COLORS: Record<string, string> = {
     'in-progress': '#E53935', // Red Accent
     completed: '#4CAF50', // Green
     failed: '#F44336',    // Bright Red
+    cancelled: '#9E9E9E', // Light Grey
+    'awaiting-approval': '#FFB300', // Amber
+    skipped: '#546E7A',   // Blue Grey
 };
 
-export const PlanGraphVisualizer: React.FC<{ plan: Plan }> = ({ plan }) => {
+const nodeKindLabel = (step: PlanStep): string =>
+    step.kind === 'subplan' ? 'sub-plan' : isMapStep(step) ? `map · ${step.tool_to_use}` : step.tool_to_use;
+
+interface PlanGraphVisualizerProps {
+    plan: Plan;
+    onToggleApproval?: (stepId: number) => void;
+    // Supplying both turns on edit mode: edges can be drawn and deleted from the vis-network toolbar
+    onAddDependency?: (fromStepId: number, toStepId: number) => void;
+    onRemoveDependency?: (fromStepId: number, toStepId: number) => void;
+}
+
+export const PlanGraphVisualizer: React.FC<PlanGraphVisualizerProps> = ({ plan, onToggleApproval, onAddDependency, onRemoveDependency }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const networkRef = useRef<any>(null);
+    // Kept in refs so the handlers bound at creation always call the latest callbacks
+    const onToggleApprovalRef = useRef(onToggleApproval);
+    onToggleApprovalRef.current = onToggleApproval;
+    const onAddDependencyRef = useRef(onAddDependency);
+    onAddDependencyRef.current = onAddDependency;
+    const onRemoveDependencyRef = useRef(onRemoveDependency);
+    onRemoveDependencyRef.current = onRemoveDependency;
+    const isEditable = !!(onAddDependency && onRemoveDependency);
+    // Sub-plans (and map items) the user expanded or collapsed; others are expanded until they complete
+    const subplanToggles = useRef(new Map<number, boolean>());
 
     // Effect for initializing and updating the graph
     useEffect(() => {
         if (!containerRef.current || typeof vis === 'undefined' || plan.plan.length === 0) return;
 
+        const allSteps = flattenPlanSteps(plan.plan);
+        const subplanSteps = allSteps.filter(s => s.subplan && s.subplan.plan.length > 0);
+
         // Create nodes
         const nodes = new vis.DataSet(
-            plan.plan.map(step => ({
+            allSteps.map(step => ({
                 id: step.step_id,
-                label: `Step ${step.step_id}\n(${step.tool_to_use})`,
+                label: `${step.requires_approval ? '🔒 ' : ''}Step ${step.step_id}\n(${nodeKindLabel(step)})`,
                 color: {
                     border: STATUS_COLORS[step.status] || STATUS_COLORS.pending,
                     background: '#2d2d2d',
                     highlight: { border: STATUS_COLORS[step.status], background: '#3c3c3c' },
                 },
-                font: { color: '#e0e0e0', face: 'Roboto Mono', size: 12 },
+                font: { color: step.status === 'skipped' ? '#9E9E9E' : '#e0e0e0', face: 'Roboto Mono', size: 12 },
+                ...(step.status === 'skipped' && { shapeProperties: { borderDashes: [2, 4] } }),
             }))
         );
 
-        // Create edges based on dependencies
-        const edges = new vis.DataSet(
-            plan.plan.flatMap(step => 
+        // Create edges based on dependencies, plus dashed edges from each sub-plan step into its first steps.
+        // The edge a step's condition tests is labelled with the condition.
+        const edges = new vis.DataSet([
+            ...allSteps.flatMap(step => 
                 (step.dependencies || []).map(depId => {
-                    const depStep = plan.plan.find(s => s.step_id === depId);
-                    const edgeColor = (depStep && depStep.status === 'completed') ? STATUS_COLORS.completed : STATUS_COLORS.pending;
+                    const depStep = allSteps.find(s => s.step_id === depId);
+                    const edgeColor = (depStep && isStepSettled(depStep)) ? STATUS_COLORS[depStep.status] : STATUS_COLORS.pending;
+                    const isConditionEdge = step.condition?.step_id === depId;
                     return {
                         id: `${depId}-${step.step_id}`,
                         from: depId,
                         to: step.step_id,
                         arrows: 'to',
                         color: edgeColor,
+                        ...(isConditionEdge && {
+                            label: `if ${describeCondition(step.condition!).replace(`step ${depId} `, '')}`,
+                            font: { color: '#e0e0e0', strokeWidth: 0, size: 10, face: 'Roboto Mono', align: 'top' },
+                        }),
                     };
                 })
-            )
-        );
+            ),
+            ...subplanSteps.flatMap(parent => parent.subplan!.plan.filter(child => (child.dependencies || []).length === 0).map(child => ({
+                id: `sub-${parent.step_id}-${child.step_id}`,
+                from: parent.step_id,
+                to: child.step_id,
+                arrows: 'to',
+                dashes: true,
+                color: STATUS_COLORS.pending,
+            }))),
+        ]);
+
+        // A collapsed sub-plan is drawn as one node standing in for the parent step and its sub-plan
+        const isExpanded = (step: PlanStep) => subplanToggles.current.get(step.step_id) ?? step.status !== 'completed';
+        const collapseSubplans = (network: any) => subplanSteps.filter(step => !isExpanded(step)).forEach(step => {
+            const memberIds = new Set(flattenPlanSteps([step]).map(s => s.step_id));
+            network.cluster({
+                joinCondition: (node: { id: number }) => memberIds.has(node.id),
+                clusterNodeProperties: {
+                    id: `cluster-${step.step_id}`,
+                    label: `Step ${step.step_id}\n(${isMapStep(step) ? `map · ${step.subplan!.plan.length} items` : `sub-plan · ${step.subplan!.plan.length} steps`})`,
+                    shape: 'box',
+                    borderWidth: 2,
+                    shapeProperties: { borderDashes: [4, 4] },
+                    color: { border: STATUS_COLORS[step.status] || STATUS_COLORS.pending, background: '#2d2d2d' },
+                    font: { color: '#e0e0e0', face: 'Roboto Mono', size: 12 },
+                },
+            });
+        });
 
         const data = { nodes, edges };
         const options = {
@@ -66,8 +127,28 @@ export const PlanGraphVisualizer: React.FC<{ plan: Plan }> = ({ plan }) => {
                 dragNodes: false,
                 dragView: true,
                 zoomView: true,
-                selectable: false,
+                selectable: isEditable,
             },
+            // The callbacks hand the change to the owner and cancel vis-network's own edit;
+            // the graph is redrawn from the updated plan instead.
+            manipulation: isEditable ? {
+                enabled: true,
+                initiallyActive: true,
+                addNode: false,
+                editEdge: false,
+                deleteNode: false,
+                addEdge: (edge: { from: number; to: number }, callback: (edge: null) => void) => {
+                    if (edge.from !== edge.to) onAddDependencyRef.current?.(edge.from, edge.to);
+                    callback(null);
+                },
+                deleteEdge: (selection: { edges: string[] }, callback: (selection: null) => void) => {
+                    selection.edges.forEach(edgeId => {
+                        const [from, to] = edgeId.split('-').map(Number);
+                        onRemoveDependencyRef.current?.(from, to);
+                    });
+                    callback(null);
+                },
+            } : { enabled: false },
             nodes: {
                 shape: 'box',
                 borderWidth: 2,
@@ -87,7 +168,27 @@ export const PlanGraphVisualizer: React.FC<{ plan: Plan }> = ({ plan }) => {
             networkRef.current.setData(data);
         } else {
             networkRef.current = new vis.Network(containerRef.current, data, options);
+            // Double-clicking a collapsed sub-plan expands it, and double-clicking an expanded sub-plan step collapses it.
+            // Double-clicking any other step toggles its approval gate (looked up by pointer, since nodes are not selectable).
+            const network = networkRef.current;
+            network.on('doubleClick', (params: { pointer: { DOM: { x: number; y: number } } }) => {
+                const nodeId = network.getNodeAt(params.pointer.DOM);
+                if (nodeId === undefined) return;
+                if (network.isCluster(nodeId)) {
+                    subplanToggles.current.set(Number(String(nodeId).replace('cluster-', '')), true);
+                    network.openCluster(nodeId);
+                    return;
+                }
+                const subplanStep = subplanSteps.find(s => s.step_id === nodeId);
+                if (subplanStep) {
+                    subplanToggles.current.set(nodeId, false);
+                    collapseSubplans(network);
+                    return;
+                }
+                onToggleApprovalRef.current?.(nodeId);
+            });
         }
+        collapseSubplans(networkRef.current);
 
         // Cleanup on unmount
         const networkInstance = networkRef.current;
@@ -109,6 +210,6 @@ export const PlanGraphVisualizer: React.FC<{ plan: Plan }> = ({ plan }) => {
     if (plan.plan.length === 0) return null;
 
     return (
-        <div ref={containerRef} className="h-28 w-full bg-background/50 rounded-sm border border-border/50 my-3" />
+        <div ref={containerRef} className={`${isEditable ? 'h-56' : 'h-28'} w-full bg-background/50 rounded-sm border border-border/50 my-3`} />
     );
 };
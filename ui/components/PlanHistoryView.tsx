@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { PlanRevision, PlanStepDiff } from '../../types';
+import { diffPlans } from '../../engine/planUtils';
+
+const CHANGE_STYLES: Record<PlanStepDiff['change'], string> = {
+    added: 'border-green-500/60 bg-green-500/5',
+    removed: 'border-destructive/60 bg-destructive/5',
+    changed: 'border-amber-500/60 bg-amber-500/5',
+    unchanged: 'border-border',
+};
+
+const FIELD_LABELS: Record<PlanStepDiff['changedFields'][number], string> = {
+    description: 'Description',
+    tool_to_use: 'Agent',
+    acceptance_criteria: 'Acceptance criteria',
+    requires_approval: 'Approval gate',
+};
+
+const formatDeps = (ids: number[]) => ids.map(id => `#${id}`).join(', ');
+
+const StepDiffRow: React.FC<{ diff: PlanStepDiff }> = ({ diff }) => {
+    const step = diff.after ?? diff.before!;
+    return (
+        <div className={`p-2 rounded-md border text-xs ${CHANGE_STYLES[diff.change]}`}>
+            <p className="text-foreground">
+                <span className="font-bold uppercase text-[10px] mr-2 text-muted-foreground">{diff.change}</span>
+                Step {diff.step_id} <span className="text-muted-foreground">({step.tool_to_use})</span>
+            </p>
+            {diff.change !== 'changed' && <p className={`mt-1 ${diff.change === 'removed' ? 'line-through text-muted-foreground' : 'text-foreground/80'}`}>{step.description}</p>}
+            {diff.changedFields.map(field => (
+                <div key={field} className="mt-1">
+                    <span className="text-muted-foreground">{FIELD_LABELS[field]}: </span>
+                    <span className="line-through text-destructive/80">{String(diff.before?.[field] ?? '—')}</span>
+                    <span className="text-muted-foreground"> → </span>
+                    <span className="text-green-500">{String(diff.after?.[field] ?? '—')}</span>
+                </div>
+            ))}
+            {(diff.addedDependencies.length > 0 || diff.removedDependencies.length > 0) && (
+                <p className="mt-1 text-muted-foreground">
+                    Dependencies:
+                    {diff.addedDependencies.length > 0 && <span className="text-green-500 ml-1">+{formatDeps(diff.addedDependencies)}</span>}
+                    {diff.removedDependencies.length > 0 && <span className="text-destructive ml-1">−{formatDeps(diff.removedDependencies)}</span>}
+                </p>
+            )}
+        </div>
+    );
+};
+
+// Compares two versions of a run's plan, next to the trigger that produced the newer one
+export const PlanHistoryView: React.FC<{ history: PlanRevision[] }> = ({ history }) => {
+    // Until a version is picked, the latest two are compared, following new versions as a run replans
+    const [fromVersion, setFromVersion] = useState<number | null>(null);
+    const [toVersion, setToVersion] = useState<number | null>(null);
+
+    const from = history.find(r => r.version === fromVersion) ?? history[history.length - 2];
+    const to = history.find(r => r.version === toVersion) ?? history[history.length - 1];
+    const diff = useMemo(() => diffPlans(from.steps, to.steps), [from, to]);
+    const changes = diff.filter(d => d.change !== 'unchanged');
+    const unchangedCount = diff.length - changes.length;
+
+    const selectClass = "text-xs bg-background border border-border rounded-md p-1 focus:outline-none focus:ring-1 focus:ring-primary";
+    const versionOptions = history.map(r => <option key={r.version} value={r.version}>v{r.version}</option>);
+
+    return (
+        <details className="mt-3 pt-3 border-t border-border/50">
+            <summary className="text-xs font-semibold text-muted-foreground cursor-pointer hover:text-foreground">Plan history ({history.length} versions)</summary>
+            <div className="mt-2 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    Compare
+                    <select value={from.version} onChange={e => setFromVersion(Number(e.target.value))} className={selectClass}>{versionOptions}</select>
+                    with
+                    <select value={to.version} onChange={e => setToVersion(Number(e.target.value))} className={selectClass}>{versionOptions}</select>
+                </div>
+                {to.trigger && (
+                    <div className="p-2 text-xs bg-background/50 border border-border/50 rounded-md">
+                        <span className="font-semibold text-foreground">v{to.version} was created because: </span>
+                        <span className="text-foreground/80 whitespace-pre-wrap">{to.trigger}</span>
+                    </div>
+                )}
+                {changes.length === 0
+                    ? <p className="text-xs text-muted-foreground">No differences between these versions.</p>
+                    : changes.map(d => <StepDiffRow key={d.step_id} diff={d} />)}
+                {unchangedCount > 0 && changes.length > 0 && <p className="text-xs text-muted-foreground">{unchangedCount} step(s) unchanged.</p>}
+            </div>
+        </details>
+    );
+};
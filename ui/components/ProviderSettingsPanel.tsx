@@ -0,0 +1,60 @@
+import React from 'react';
+import { ModelProviderId, TaskType } from '../../types';
+import { AGENT_ROSTER } from '../../constants';
+import { useAppContext } from '../context/AppProvider';
+import { PROVIDER_LABELS, resolveAgentModel } from '../../engine/providers';
+
+export const ProviderSettingsPanel: React.FC = () => {
+    const { providerSettings, setProviderSettings } = useAppContext();
+    const { openai } = providerSettings;
+
+    const setOpenAi = (changes: Partial<typeof openai>) => setProviderSettings({ ...providerSettings, openai: { ...openai, ...changes } });
+
+    const fieldClass = "w-full text-xs bg-background border border-border rounded-sm p-1.5 focus:outline-none focus:ring-1 focus:ring-primary";
+
+    return (
+        <div className="p-2 space-y-3 text-xs">
+            <p className="text-foreground/60 px-1">
+                Choose which model provider the agents run on. By default each agent uses the provider and model named in its roster entry.
+            </p>
+
+            <div className="p-2 bg-card rounded-sm space-y-2">
+                <label className="block font-semibold text-foreground">Run all agents on</label>
+                <select
+                    value={providerSettings.override ?? ''}
+                    onChange={e => setProviderSettings({ ...providerSettings, override: (e.target.value || null) as ModelProviderId | null })}
+                    className={fieldClass}
+                >
+                    <option value="">Roster defaults</option>
+                    {(Object.keys(PROVIDER_LABELS) as ModelProviderId[]).map(p => <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>)}
+                </select>
+            </div>
+
+            <div className="p-2 bg-card rounded-sm space-y-2">
+                <p className="font-semibold text-foreground">{PROVIDER_LABELS.openai} endpoint</p>
+                <p className="text-foreground/50">Any server speaking the OpenAI chat completions API, e.g. Ollama or llama.cpp.</p>
+                <label className="block text-foreground/60">Base URL</label>
+                <input value={openai.baseUrl} onChange={e => setOpenAi({ baseUrl: e.target.value })} className={fieldClass} />
+                <label className="block text-foreground/60">Model</label>
+                <input value={openai.model} onChange={e => setOpenAi({ model: e.target.value })} className={fieldClass} />
+                <label className="block text-foreground/60">API key (optional)</label>
+                <input type="password" value={openai.apiKey} onChange={e => setOpenAi({ apiKey: e.target.value })} className={fieldClass} />
+            </div>
+
+            <div className="p-2 bg-card rounded-sm">
+                <p className="font-semibold text-foreground mb-1">Effective models</p>
+                <ul className="space-y-0.5">
+                    {(Object.keys(AGENT_ROSTER) as TaskType[]).map(task => {
+                        const { provider, model } = resolveAgentModel(AGENT_ROSTER[task], providerSettings);
+                        return (
+                            <li key={task} className="flex justify-between gap-2">
+                                <span className="text-foreground/80">{AGENT_ROSTER[task].title}</span>
+                                <span className="font-mono text-foreground/50 truncate" title={`${PROVIDER_LABELS[provider]}: ${model}`}>{provider}:{model}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+};
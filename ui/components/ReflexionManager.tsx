@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { db, ScoredReflexionEntry } from '../hooks/useDB';
+import { embeddingService } from '../hooks/useEmbeddingService';
+import { useAppContext } from '../context/AppProvider';
+import { ReflexionEntry } from '../../types';
+
+type EditableFields = Pick<ReflexionEntry, 'original_prompt' | 'critique' | 'successful_fix'>;
+
+export const ReflexionManager: React.FC = () => {
+    const { isEmbedderReady } = useAppContext();
+    const [entries, setEntries] = useState<ReflexionEntry[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [draft, setDraft] = useState<EditableFields>({ original_prompt: '', critique: '', successful_fix: '' });
+    const [recallQuery, setRecallQuery] = useState('');
+    const [recallResults, setRecallResults] = useState<ScoredReflexionEntry[] | null>(null);
+    const [isRecalling, setIsRecalling] = useState(false);
+
+    const refreshEntries = async () => {
+        setError(null);
+        try {
+            setEntries(await db.getAllReflexions());
+        } catch (e) {
+            console.error("Failed to load reflexion memory:", e);
+            setError("Could not access reflexion memory. This can happen if IndexedDB is disabled in your browser (e.g., in private browsing mode).");
+            setEntries([]);
+        }
+    };
+
+    useEffect(() => {
+        refreshEntries();
+    }, []);
+
+    const startEdit = (entry: ReflexionEntry) => {
+        setEditingId(entry.id!);
+        setDraft({ original_prompt: entry.original_prompt, critique: entry.critique, successful_fix: entry.successful_fix });
+    };
+
+    const handleSave = async (entry: ReflexionEntry) => {
+        try {
+            const changes: Partial<ReflexionEntry> = { ...draft };
+            // Recall matches on the prompt embedding, so a new prompt needs a new embedding
+            if (draft.original_prompt !== entry.original_prompt) {
+                changes.promptEmbedding = await embeddingService.generateEmbedding(draft.original_prompt);
+            }
+            await db.updateReflexionEntry(entry.id!, changes);
+            setEditingId(null);
+            refreshEntries();
+        } catch (e) {
+            console.error(`Failed to update lesson ${entry.id}:`, e);
+            setError("Failed to save the lesson. Re-embedding requires the embedding model to be loaded.");
+        }
+    };
+
+    const handleTogglePin = async (entry: ReflexionEntry) => {
+        await db.updateReflexionEntry(entry.id!, { pinned: !entry.pinned });
+        refreshEntries();
+    };
+
+    const handleDelete = async (entry: ReflexionEntry) => {
+        if (window.confirm('Are you sure you want to delete this lesson?')) {
+            await db.deleteReflexionEntry(entry.id!);
+            refreshEntries();
+        }
+    };
+
+    const handleClearAll = async () => {
+        if (window.confirm('Are you sure you want to delete ALL lessons from reflexion memory? This cannot be undone.')) {
+            await db.clearReflexionMemory();
+            setRecallResults(null);
+            refreshEntries();
+        }
+    };
+
+    const handleTestRecall = async () => {
+        if (!recallQuery.trim()) return;
+        setIsRecalling(true);
+        try {
+            const embedding = await embeddingService.generateEmbedding(recallQuery.trim());
+            setRecallResults(await db.findSimilarReflexions(embedding, 2));
+        } catch (e) {
+            console.error("Recall test failed:", e);
+            setError("Recall test failed. The embedding model may still be loading.");
+        } finally {
+            setIsRecalling(false);
+        }
+    };
+
+    const fieldClass = "w-full text-xs bg-background border border-border rounded-sm p-1.5 focus:outline-none focus:ring-1 focus:ring-primary";
+
+    return (
+        <div className="p-2">
+            <p className="text-xs text-foreground/60 mb-3 px-1">
+                Lessons learned from failed runs. The Planner recalls a few for each new goal: pinned ones first, then the most similar.
+            </p>
+            {error && (
+                <div className="p-2 mb-3 bg-accent/20 border border-accent text-accent text-xs rounded-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="mb-3 p-2 bg-card rounded-sm space-y-2">
+                <p className="text-xs font-semibold text-foreground">Test recall</p>
+                <div className="flex gap-2">
+                    <input
+                        value={recallQuery}
+                        onChange={e => setRecallQuery(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && handleTestRecall()}
+                        placeholder="A goal to plan for..."
+                        className={fieldClass}
+                    />
+                    <button
+                        onClick={handleTestRecall}
+                        disabled={!isEmbedderReady || isRecalling || !recallQuery.trim()}
+                        className="text-xs bg-primary hover:bg-primary/90 text-primary-foreground px-3 py-1 rounded-sm transition-colors disabled:opacity-50"
+                    >
+                        {isRecalling ? '...' : 'Recall'}
+                    </button>
+                </div>
+                {recallResults && (
+                    recallResults.length === 0
+                        ? <p className="text-xs text-foreground/50">No lessons would be recalled for this prompt.</p>
+                        : <ul className="text-xs space-y-1">
+                            {recallResults.map(r => (
+                                <li key={r.id} className="flex justify-between gap-2">
+                                    <span className="truncate" title={r.original_prompt}>#{r.id} {r.original_prompt}</span>
+                                    <span className="flex-shrink-0 text-foreground/60">{r.pinned ? 'pinned' : r.similarity.toFixed(2)}</span>
+                                </li>
+                            ))}
+                          </ul>
+                )}
+            </div>
+
+            <button
+                onClick={handleClearAll}
+                className="w-full mb-3 text-xs bg-accent/80 hover:bg-accent text-white px-3 py-1 rounded-sm transition-colors disabled:opacity-50"
+                disabled={!!error || entries.length === 0}
+            >
+                Delete All Lessons
+            </button>
+            <ul className="space-y-2">
+                {entries.length === 0 && !error && (
+                    <li className="text-center text-xs text-foreground/50 py-4">No lessons recorded yet.</li>
+                )}
+                {entries.map(entry => (
+                    <li key={entry.id} className={`p-2 bg-card rounded-sm text-xs space-y-1 ${entry.pinned ? 'border-l-2 border-primary' : ''}`}>
+                        {editingId === entry.id ? (
+                            <>
+                                <label className="block text-foreground/60">Prompt</label>
+                                <textarea value={draft.original_prompt} onChange={e => setDraft({ ...draft, original_prompt: e.target.value })} rows={2} className={fieldClass} />
+                                <label className="block text-foreground/60">Critique</label>
+                                <textarea value={draft.critique} onChange={e => setDraft({ ...draft, critique: e.target.value })} rows={3} className={fieldClass} />
+                                <label className="block text-foreground/60">Fix</label>
+                                <textarea value={draft.successful_fix} onChange={e => setDraft({ ...draft, successful_fix: e.target.value })} rows={3} className={fieldClass} />
+                                <div className="flex gap-3 pt-1">
+                                    <button onClick={() => handleSave(entry)} className="text-primary hover:text-primary/80">Save</button>
+                                    <button onClick={() => setEditingId(null)} className="text-foreground/60 hover:text-foreground">Cancel</button>
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <div className="flex justify-between gap-2">
+                                    <p className="font-mono font-bold text-foreground truncate" title={entry.original_prompt}>{entry.original_prompt}</p>
+                                    <span className="flex-shrink-0 text-foreground/50">{entry.source === 'step_retry' ? 'step retry' : entry.source ?? ''}</span>
+                                </div>
+                                <p className="text-foreground/70"><span className="font-semibold">Critique:</span> {entry.critique}</p>
+                                <p className="text-foreground/70 line-clamp-3" title={entry.successful_fix}><span className="font-semibold">Fix:</span> {entry.successful_fix}</p>
+                                <div className="flex justify-between items-center pt-1">
+                                    <span className="text-foreground/40">{entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ''}</span>
+                                    <div className="flex gap-3">
+                                        <button onClick={() => handleTogglePin(entry)} className="text-foreground/60 hover:text-foreground">{entry.pinned ? 'Unpin' : 'Pin'}</button>
+                                        <button onClick={() => startEdit(entry)} className="text-foreground/60 hover:text-foreground">Edit</button>
+                                        <button onClick={() => handleDelete(entry)} className="text-red-500 hover:text-red-400">Delete</button>
+                                    </div>
+                                </div>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
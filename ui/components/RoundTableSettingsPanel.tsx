@@ -0,0 +1,37 @@
+import React from 'react';
+import { MAX_ROUND_TABLE_ROUNDS, ROUND_TABLE_PERSONAS } from '../../constants';
+import { useAppContext } from '../context/AppProvider';
+
+export const RoundTableSettingsPanel: React.FC = () => {
+    const { roundTableSettings, setRoundTableSettings, isGraphRunning } = useAppContext();
+    const seated = ROUND_TABLE_PERSONAS.slice(0, roundTableSettings.participants);
+
+    const rangeClass = "w-full accent-primary disabled:opacity-50";
+
+    return (
+        <div className="m-2 p-2 bg-card rounded-sm space-y-2 text-xs">
+            <p className="font-semibold text-foreground">Round Table</p>
+            <label className="flex justify-between text-foreground/60">
+                <span>Participants</span>
+                <span className="font-mono text-foreground">{roundTableSettings.participants}</span>
+            </label>
+            <input
+                type="range" min={2} max={ROUND_TABLE_PERSONAS.length} value={roundTableSettings.participants} disabled={isGraphRunning}
+                onChange={e => setRoundTableSettings({ ...roundTableSettings, participants: Number(e.target.value) })}
+                className={rangeClass}
+            />
+            <label className="flex justify-between text-foreground/60">
+                <span>Critique rounds</span>
+                <span className="font-mono text-foreground">{roundTableSettings.rounds}</span>
+            </label>
+            <input
+                type="range" min={0} max={MAX_ROUND_TABLE_ROUNDS} value={roundTableSettings.rounds} disabled={isGraphRunning}
+                onChange={e => setRoundTableSettings({ ...roundTableSettings, rounds: Number(e.target.value) })}
+                className={rangeClass}
+            />
+            <p className="text-foreground/50">
+                Seated: {seated.map(p => p.name).join(', ')}. Each opens with a proposal, then critiques the others and revises for {roundTableSettings.rounds} round(s).
+            </p>
+        </div>
+    );
+};
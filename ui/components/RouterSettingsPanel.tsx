@@ -0,0 +1,23 @@
+import React from 'react';
+import { useAppContext } from '../context/AppProvider';
+
+export const RouterSettingsPanel: React.FC = () => {
+    const { routerComplexityThreshold, setRouterComplexityThreshold } = useAppContext();
+
+    return (
+        <div className="m-2 p-2 bg-card rounded-sm space-y-2 text-xs">
+            <label className="flex justify-between font-semibold text-foreground">
+                <span>Direct-answer threshold</span>
+                <span className="font-mono">{routerComplexityThreshold === 0 ? 'off' : `≤ ${routerComplexityThreshold}`}</span>
+            </label>
+            <input
+                type="range" min={0} max={10} value={routerComplexityThreshold}
+                onChange={e => setRouterComplexityThreshold(Number(e.target.value))}
+                className="w-full accent-primary"
+            />
+            <p className="text-foreground/50">
+                The Router scores every query from 1 to 10. Queries at or below this score go straight to the routed agent; the rest run the full plan-and-execute graph. Set to 0 to always run the graph.
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { SchedulerSettings } from '../../types';
+import { useAppContext } from '../context/AppProvider';
+
+export const SchedulerSettingsPanel: React.FC = () => {
+    const { schedulerSettings, setSchedulerSettings } = useAppContext();
+
+    const update = (changes: Partial<SchedulerSettings>) => setSchedulerSettings({ ...schedulerSettings, ...changes });
+    const toNumber = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+    const fieldClass = "w-20 text-xs bg-background border border-border rounded-sm p-1 text-right focus:outline-none focus:ring-1 focus:ring-primary";
+
+    return (
+        <div className="m-2 p-2 bg-card rounded-sm space-y-2 text-xs">
+            <p className="font-semibold text-foreground">Step scheduler</p>
+            <label className="flex justify-between items-center text-foreground/60">
+                <span>Max concurrent steps per model</span>
+                <input type="number" min={1} value={schedulerSettings.maxConcurrencyPerModel} onChange={e => update({ maxConcurrencyPerModel: Math.max(1, toNumber(e.target.value)) })} className={fieldClass} />
+            </label>
+            <label className="flex justify-between items-center text-foreground/60">
+                <span>Step starts per model per minute</span>
+                <input type="number" min={0} value={schedulerSettings.requestsPerMinute} onChange={e => update({ requestsPerMinute: toNumber(e.target.value) })} className={fieldClass} />
+            </label>
+            <label className="flex justify-between items-center text-foreground/60">
+                <span>Step timeout (seconds)</span>
+                <input type="number" min={0} value={Math.round(schedulerSettings.stepTimeoutMs / 1000)} onChange={e => update({ stepTimeoutMs: toNumber(e.target.value) * 1000 })} className={fieldClass} />
+            </label>
+            <p className="text-foreground/50">
+                Plan steps wait in a queue when their model is busy; steps on the longest remaining chain go first. A 429 pauses the model until it may be called again. 0 turns the rate limit or the timeout off.
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { SupervisorMode } from '../../types';
+import { useAppContext } from '../context/AppProvider';
+
+const MODES: { mode: SupervisorMode; label: string }[] = [
+    { mode: 'llm', label: 'Model' },
+    { mode: 'rules', label: 'Deterministic' },
+];
+
+export const SupervisorSettingsPanel: React.FC = () => {
+    const { supervisorMode, setSupervisorMode, reviewPlans, setReviewPlans } = useAppContext();
+
+    return (
+        <div className="m-2 p-2 bg-card rounded-sm space-y-2 text-xs">
+            <div className="flex justify-between items-center font-semibold text-foreground">
+                <span>Supervisor</span>
+                <div className="flex gap-1">
+                    {MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            onClick={() => setSupervisorMode(mode)}
+                            className={`px-2 py-0.5 rounded-sm ${supervisorMode === mode ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:text-foreground'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-foreground/50">
+                {supervisorMode === 'llm'
+                    ? 'The Supervisor model decides what runs next. If it fails to route, the deterministic rules take over.'
+                    : 'Fixed rules decide what runs next: plan, critique when every step is done, re-plan on failure. Saves a model call per decision.'}
+            </p>
+            <div className="flex justify-between items-center font-semibold text-foreground">
+                <span>New plans</span>
+                <div className="flex gap-1">
+                    {[false, true].map(review => (
+                        <button
+                            key={String(review)}
+                            onClick={() => setReviewPlans(review)}
+                            className={`px-2 py-0.5 rounded-sm ${reviewPlans === review ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:text-foreground'}`}
+                        >
+                            {review ? 'Review first' : 'Run'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-foreground/50">
+                {reviewPlans
+                    ? 'A run stops once its plan is made, so you can edit the plan before starting it. Re-plans still run straight away.'
+                    : 'A plan runs as soon as the Planner makes it.'}
+            </p>
+        </div>
+    );
+};
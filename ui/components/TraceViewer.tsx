@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { ExecutionTrace, TraceSpan } from '../../types';
+import { APP_TITLE, APP_VERSION } from '../../constants';
+import { toOtlpJson } from '../../engine/tracing';
+
+const KIND_COLORS: Record<TraceSpan['kind'], string> = {
+    run: 'bg-foreground/60',
+    supervisor: 'bg-purple-500',
+    step: 'bg-blue-500',
+    llm: 'bg-primary',
+    tool: 'bg-amber-500',
+};
+
+const formatDuration = (ms: number) => ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+// Depth-first order, so each span is listed right under its parent.
+const flattenSpans = (spans: TraceSpan[]): { span: TraceSpan; depth: number }[] => {
+    const ids = new Set(spans.map(s => s.spanId));
+    const children = new Map<string | undefined, TraceSpan[]>();
+    spans.forEach(s => {
+        const parent = s.parentId && ids.has(s.parentId) ? s.parentId : undefined;
+        children.set(parent, [...(children.get(parent) || []), s]);
+    });
+    const rows: { span: TraceSpan; depth: number }[] = [];
+    const walk = (parentId: string | undefined, depth: number) => {
+        (children.get(parentId) || []).sort((a, b) => a.startTime - b.startTime).forEach(span => {
+            rows.push({ span, depth });
+            walk(span.spanId, depth + 1);
+        });
+    };
+    walk(undefined, 0);
+    return rows;
+};
+
+export const TraceViewer: React.FC<{ trace: ExecutionTrace }> = ({ trace }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const rows = useMemo(() => flattenSpans(trace.spans), [trace]);
+
+    if (trace.spans.length === 0) return null;
+
+    const traceStart = Math.min(...trace.spans.map(s => s.startTime));
+    const traceEnd = Math.max(...trace.spans.map(s => s.endTime ?? Date.now()));
+    const total = Math.max(traceEnd - traceStart, 1);
+
+    const handleExport = () => {
+        const json = JSON.stringify(toOtlpJson(trace, APP_TITLE, APP_VERSION), null, 2);
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `trace-${trace.traceId}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="mt-2 p-2 bg-background rounded-md border border-border/50">
+            <div className="flex justify-between items-center mb-2">
+                <p className="text-muted-foreground">{trace.spans.length} spans · {formatDuration(total)}</p>
+                <button onClick={handleExport} className="text-xs text-muted-foreground hover:text-foreground border border-border px-2 py-0.5 rounded-md transition-colors">Export OTLP JSON</button>
+            </div>
+            <div className="space-y-0.5 max-h-80 overflow-y-auto">
+                {rows.map(({ span, depth }) => {
+                    const duration = (span.endTime ?? Date.now()) - span.startTime;
+                    const isSelected = selectedId === span.spanId;
+                    return (
+                        <div key={span.spanId}>
+                            <button onClick={() => setSelectedId(isSelected ? null : span.spanId)} className={`w-full flex items-center gap-2 py-0.5 rounded-sm hover:bg-muted/50 ${isSelected ? 'bg-muted/50' : ''}`}>
+                                <span className={`w-2/5 text-left truncate ${span.status === 'error' ? 'text-red-400' : 'text-foreground/80'}`} style={{ paddingLeft: depth * 12 }} title={span.name}>
+                                    {span.name}
+                                </span>
+                                <span className="flex-1 relative h-2.5 bg-muted/30 rounded-sm">
+                                    <span
+                                        className={`absolute h-full rounded-sm ${span.status === 'error' ? 'bg-destructive' : KIND_COLORS[span.kind]} ${span.endTime === undefined ? 'animate-pulse' : ''}`}
+                                        style={{ left: `${((span.startTime - traceStart) / total) * 100}%`, width: `${Math.max((duration / total) * 100, 0.5)}%` }}
+                                    />
+                                </span>
+                                <span className="w-16 text-right text-muted-foreground">{formatDuration(duration)}</span>
+                            </button>
+                            {isSelected && (
+                                <div className="ml-4 my-1 p-2 bg-card/70 rounded-sm border border-border/50 font-mono">
+                                    <p><span className="text-muted-foreground">kind:</span> {span.kind} · <span className="text-muted-foreground">status:</span> {span.status}</p>
+                                    {span.error && <p className="text-red-400">{span.error}</p>}
+                                    {Object.entries(span.attributes).map(([key, value]) => (
+                                        <p key={key} className="truncate" title={String(value)}><span className="text-muted-foreground">{key}:</span> {String(value)}</p>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
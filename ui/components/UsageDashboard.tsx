@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { AGENT_ROSTER } from '../../constants';
+import { ModelPrice } from '../../types';
+import { useAppContext } from '../context/AppProvider';
+import { summarizeUsage, summarizeUsageByAgent, formatCost } from '../hooks/usageLedger';
+
+export const UsageDashboard: React.FC = () => {
+    const { usageRecords, modelPricing, setModelPricing, clearUsageRecords, exportUsageCsv } = useAppContext();
+
+    const total = useMemo(() => summarizeUsage(usageRecords), [usageRecords]);
+    const byAgent = useMemo(() => summarizeUsageByAgent(usageRecords), [usageRecords]);
+    // Models that were called but have no price yet are listed so they can be priced
+    const models = useMemo(() => Array.from(new Set([...Object.keys(modelPricing), ...usageRecords.map(r => r.model)])).sort(), [modelPricing, usageRecords]);
+
+    const setPrice = (model: string, field: keyof ModelPrice, value: string) => {
+        const current = modelPricing[model] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+        setModelPricing({ ...modelPricing, [model]: { ...current, [field]: Math.max(0, Number(value) || 0) } });
+    };
+
+    const handleClear = () => {
+        if (window.confirm("Are you sure you want to clear all usage records for this session?")) clearUsageRecords();
+    };
+
+    const priceInputClass = "w-16 text-right text-xs bg-background border border-border rounded-sm p-1 focus:outline-none focus:ring-1 focus:ring-primary";
+
+    return (
+        <div className="p-2 space-y-3 text-xs">
+            <div className="grid grid-cols-3 gap-2">
+                <div className="p-2 bg-card rounded-sm">
+                    <p className="text-foreground/60">Cost</p>
+                    <p className="text-base font-semibold text-foreground">{formatCost(total.costUsd)}{total.unpricedCalls > 0 ? '+' : ''}</p>
+                </div>
+                <div className="p-2 bg-card rounded-sm">
+                    <p className="text-foreground/60">Tokens</p>
+                    <p className="text-base font-semibold text-foreground">{total.totalTokens.toLocaleString()}</p>
+                </div>
+                <div className="p-2 bg-card rounded-sm">
+                    <p className="text-foreground/60">Calls</p>
+                    <p className="text-base font-semibold text-foreground">{total.calls}</p>
+                </div>
+            </div>
+            {total.unpricedCalls > 0 && (
+                <p className="text-yellow-400 px-1">{total.unpricedCalls} call(s) used models without a price and are not included in the cost.</p>
+            )}
+
+            <div className="p-2 bg-card rounded-sm">
+                <p className="font-semibold text-foreground mb-1">By agent</p>
+                {byAgent.length === 0 ? (
+                    <p className="text-foreground/60 py-2">No model calls yet this session.</p>
+                ) : (
+                    <table className="w-full">
+                        <thead>
+                            <tr className="text-foreground/50 text-left">
+                                <th className="font-normal">Agent</th>
+                                <th className="font-normal text-right">Calls</th>
+                                <th className="font-normal text-right">Prompt</th>
+                                <th className="font-normal text-right">Output</th>
+                                <th className="font-normal text-right">Thinking</th>
+                                <th className="font-normal text-right">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody className="font-mono">
+                            {byAgent.map(([taskType, s]) => (
+                                <tr key={taskType} className="text-foreground/80">
+                                    <td className="font-sans">{AGENT_ROSTER[taskType]?.title ?? taskType}</td>
+                                    <td className="text-right">{s.calls}</td>
+                                    <td className="text-right">{s.promptTokens.toLocaleString()}</td>
+                                    <td className="text-right">{s.candidatesTokens.toLocaleString()}</td>
+                                    <td className="text-right">{s.thoughtsTokens.toLocaleString()}</td>
+                                    <td className="text-right">{formatCost(s.costUsd)}{s.unpricedCalls > 0 ? '+' : ''}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div className="p-2 bg-card rounded-sm">
+                <p className="font-semibold text-foreground mb-1">Prices (USD per 1M tokens)</p>
+                <p className="text-foreground/50 mb-2">Changes apply to calls made from now on; recorded costs keep the price they were made at.</p>
+                <table className="w-full">
+                    <thead>
+                        <tr className="text-foreground/50 text-left">
+                            <th className="font-normal">Model</th>
+                            <th className="font-normal text-right">Input</th>
+                            <th className="font-normal text-right">Output</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {models.map(model => (
+                            <tr key={model}>
+                                <td className={`font-mono truncate ${modelPricing[model] ? 'text-foreground/80' : 'text-yellow-400'}`}>{model}</td>
+                                <td className="text-right"><input type="number" min={0} step="0.01" value={modelPricing[model]?.inputPerMillion ?? ''} onChange={e => setPrice(model, 'inputPerMillion', e.target.value)} className={priceInputClass} /></td>
+                                <td className="text-right"><input type="number" min={0} step="0.01" value={modelPricing[model]?.outputPerMillion ?? ''} onChange={e => setPrice(model, 'outputPerMillion', e.target.value)} className={priceInputClass} /></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex gap-2">
+                <button onClick={exportUsageCsv} disabled={usageRecords.length === 0} className="flex-1 text-xs bg-primary text-primary-foreground px-3 py-1.5 rounded-sm hover:bg-primary/90 transition-colors disabled:opacity-50">
+                    Export CSV
+                </button>
+                <button onClick={handleClear} disabled={usageRecords.length === 0} className="text-xs text-destructive border border-destructive/50 px-3 py-1.5 rounded-sm hover:bg-destructive/10 transition-colors disabled:opacity-50">
+                    Clear
+                </button>
+            </div>
+        </div>
+    );
+};
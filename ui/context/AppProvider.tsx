@@ -1,15 +1,21 @@
 
 import React, { useEffect } from 'react';
 import { create } from 'zustand';
-import { GoogleGenAI, Chat, Part, GenerateContentResponse, Type } from '@google/genai';
 
-import { Persona, SwarmMode, TaskType, ChatMessage, FileData, Plan, PlanStep, WorkflowState, GraphState, GraphNode, GroundingSource, FunctionCall, VizSpec, ReflexionEntry, PyodideExecutionResult } from '../../types';
-import { APP_VERSION, AGENT_ROSTER, PERSONA_CONFIGS, ROUTER_SYSTEM_INSTRUCTION, ROUTER_TOOL, SUPERVISOR_SYSTEM_INSTRUCTION, SUPERVISOR_ROUTER_TOOL, CRITIQUE_TOOL } from '../../constants';
+import { Persona, SwarmMode, TaskType, ChatMessage, FileData, Plan, PlanStep, WorkflowState, GraphState, PyodideExecutionResult, TokenUsage, ApprovalDecision, PlanRevision, ModelProviderId, ProviderSettings, ModelPrice, UsageRecord, RoundTableSettings, RoutingDecision, SupervisorMode, SchedulerSettings } from '../../types';
+import { APP_VERSION, DEFAULT_RUN_BUDGET, DEFAULT_PROVIDER_SETTINGS, MODEL_PRICING, SOTA_SECURITY_PIPELINE, DEFAULT_ROUND_TABLE_SETTINGS, DEFAULT_ROUTER_COMPLEXITY_THRESHOLD, DEFAULT_SCHEDULER_SETTINGS } from '../../constants';
 import { agentGraphConfigs } from '../components/graphConfigs';
 
-import { fileToGenerativePart, extractSources, withRetry } from '../hooks/helpers';
 import { embeddingService } from '../hooks/useEmbeddingService';
 import { db } from '../hooks/useDB';
+import { createBudgetUsage } from '../../engine/runBudget';
+import { AiClient, createProviderClient } from '../../engine/providers';
+import { Cassette, CassetteMode, createCassette, parseCassette, createRecordingClient, createReplayClient } from '../../engine/providers/cassette';
+import { priceUsage, usageRecordsToCsv } from '../hooks/usageLedger';
+import { clampRoundTableSettings } from '../../engine/roundTable';
+import { getEnabledAgents } from '../../engine/roster';
+import { seedBlackboard, clonePlan, diffPlans, hasPlanChanges, findPlanStep, mapPlanStep, isStepSettled } from '../../engine/planUtils';
+import { createOrchestrator } from '../../engine/orchestrator';
 
 type AppTheme = 'sb' | 'wsi-light' | 'wsi-dark';
 const gitHubRepoRegex = /https?:\/\/github\.com\/([a-zA-Z0-9-]+)\/([a-zA-Z0-9_.-]+)/;
@@ -32,6 +38,17 @@ interface AppState {
     pyodide: any | null;
     isPyodideReady: boolean;
     isEmbedderReady: boolean;
+    isGraphRunning: boolean;
+    cassetteMode: CassetteMode;
+    cassetteEntryCount: number; // Calls recorded (record mode) or available (replay mode)
+    providerSettings: ProviderSettings;
+    modelPricing: Record<string, ModelPrice>;
+    usageRecords: UsageRecord[]; // Every model call this session that reported token usage
+    roundTableSettings: RoundTableSettings;
+    routerComplexityThreshold: number;
+    supervisorMode: SupervisorMode;
+    reviewPlans: boolean;
+    schedulerSettings: SchedulerSettings;
 
     // Actions
     setPersona: (newPersona: Persona) => void;
@@ -49,11 +66,31 @@ interface AppState {
     toggleTheme: () => void;
     handleExecuteCode: (messageId: string, functionCallId: string, overrideCode?: string) => Promise<void>;
     handleExecutePlan: (planToExecute: Plan, completedSteps: number[]) => Promise<void>;
+    handleStopGraph: () => void;
+    handleResumeGraph: (messageId: string) => Promise<void>;
+    handleDiscardInterruptedRun: (messageId: string) => Promise<void>;
+    handleStepApproval: (planId: string, stepId: number, decision: ApprovalDecision) => void;
+    togglePlanStepApproval: (planId: string, stepId: number) => void;
+    setProviderSettings: (settings: ProviderSettings) => void;
+    setCassetteMode: (mode: CassetteMode) => void;
+    loadCassette: (file: File) => Promise<void>;
+    exportCassette: () => void;
+    setModelPricing: (pricing: Record<string, ModelPrice>) => void;
+    clearUsageRecords: () => void;
+    exportUsageCsv: () => void;
+    setRoundTableSettings: (settings: RoundTableSettings) => void;
+    setRouterComplexityThreshold: (threshold: number) => void;
+    setSupervisorMode: (mode: SupervisorMode) => void;
+    setReviewPlans: (reviewPlans: boolean) => void;
+    setSchedulerSettings: (settings: SchedulerSettings) => void;
+    handleOverrideRouting: (messageId: string) => Promise<void>;
     // Internal Actions (previously reducer cases)
     _addMessage: (message: ChatMessage) => void;
     _updateMessage: (messageId: string, update: Partial<ChatMessage>) => void;
     _setLoading: (isLoading: boolean) => void;
     _updatePlanStep: (planId, stepId: number, status: PlanStep['status'], result?: string) => void;
+    _patchPlanStep: (planId: string, stepId: number, patch: Partial<PlanStep>) => void;
+    _recoverInterruptedRuns: () => Promise<void>;
 }
 
 const safeLocalStorageGet = (key: string, defaultValue: any) => {
@@ -72,337 +109,101 @@ const safeLocalStorageGet = (key: string, defaultValue: any) => {
 
 // 2. Create the Zustand store
 const useAppStore = create<AppState>((set, get) => {
-    // Helper function to format API errors
-    const formatApiError = (e: any, agentName: string = "Agent"): string => {
-        console.error(`API Error for ${agentName}:`, e);
-        const errorMessage = e?.message ? `Details: ${e.message}` : "An unknown error occurred.";
-        return `**${agentName} failed due to an API error.**\nThis could be a temporary network issue. Please check your developer console for details.\n\n*${errorMessage}*`;
-    };
-
     // Helper to get AI client lazily
-    const getAiClient = () => {
+    // Record mode appends to `cassette`; replay mode serves it back through a single client so its cursor persists
+    let cassette: Cassette = createCassette();
+    let replayClient: AiClient | null = null;
+
+    const getAiClient = (provider: ModelProviderId): AiClient => {
+        const { cassetteMode, providerSettings } = get();
+        if (cassetteMode === 'replay') return replayClient ??= createReplayClient(cassette);
         // Safety check for process global to avoid ReferenceError in strict browser envs
         const apiKey = (typeof process !== 'undefined' && process.env) ? process.env.API_KEY : undefined;
-        
-        if (!apiKey) {
-             console.error("API_KEY is missing from process.env");
-             throw new Error("API Key is not configured.");
-        }
-        return new GoogleGenAI({ apiKey: apiKey });
+        const client = createProviderClient(provider, providerSettings, apiKey);
+        return cassetteMode === 'record'
+            ? createRecordingClient(client, cassette, () => set({ cassetteEntryCount: cassette.entries.length }))
+            : client;
     };
 
-    const getChat = (taskType: TaskType, history: ChatMessage[] = []): Chat => {
-        const agentConfig = AGENT_ROSTER[taskType];
-        const { persona, sessionFeedback } = get();
-        const personaInstruction = PERSONA_CONFIGS[persona].instruction;
-        let systemInstruction = [personaInstruction, agentConfig.systemInstruction].filter(Boolean).join('\n\n');
-        const feedbackForAgent = sessionFeedback[taskType];
-        if (feedbackForAgent?.length > 0) {
-            systemInstruction += "\n\n--- CRITICAL USER FEEDBACK (MUST FOLLOW) ---\n" + feedbackForAgent.map((f, i) => `${i+1}. ${f}`).join('\n');
-        }
 
-        // Explicit return type annotation to fix TypeScript inference
-        const geminiHistory = history.flatMap((m): { role: 'user' | 'model', parts: Part[] }[] => {
-            if (m.role === 'user') {
-                const parts: Part[] = [{ text: m.content }];
-                if (m.file) parts.push(fileToGenerativePart(m.file));
-                return [{ role: 'user' as const, parts }];
-            }
-            if (m.role === 'assistant') {
-                const parts: Part[] = [];
-                // Only add text if there is content, otherwise Gemini API might error on empty parts
-                if (m.content) parts.push({ text: m.content });
-                if (m.functionCalls) {
-                    parts.push(...m.functionCalls.map(fc => ({ functionCall: { name: fc.name, args: fc.args } })));
-                }
-                // Ensure there is at least one part if the role is assistant
-                if (parts.length === 0) {
-                    parts.push({text: ""}); // Add empty text part if no content or function calls
-                }
-                return [{ role: 'model' as const, parts }];
-            }
-            if (m.role === 'tool' && m.functionResponse) {
-                 return [{
-                    role: 'model' as const, // Gemini API expects tool responses to be from the 'model' role in history for the 'Chat' class
-                    parts: [{ functionResponse: { name: m.functionResponse.name, response: m.functionResponse.response } }]
-                }];
-            }
-            return [];
-        });
-
-        const ai = getAiClient();
-        return ai.chats.create({
-            model: agentConfig.model,
-            config: { ...agentConfig.config, tools: agentConfig.tools, ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }) },
-            history: geminiHistory
-        });
+    // Adds a usage record for one model call, priced at the current rates; calls that reported no usage are skipped
+    const recordModelCall = (call: Pick<UsageRecord, 'taskType' | 'provider' | 'model' | 'messageId' | 'runId' | 'stepId'>, usage?: TokenUsage) => {
+        if (!usage) return;
+        const record: UsageRecord = { ...call, id: `usage-${Date.now()}-${Math.random()}`, timestamp: Date.now(), usage, costUsd: priceUsage(usage, get().modelPricing[call.model]) };
+        set(state => ({ usageRecords: [...state.usageRecords, record] }));
     };
 
-    const processStream = async (stream: AsyncGenerator<GenerateContentResponse>, assistantMessageId: string, isGraphStep: boolean, onStreamUpdate?: (streamedText: string) => void) => {
-        let fullText = '', sources: GroundingSource[] = [], functionCalls: FunctionCall[] = [];
-        for await (const chunk of stream) {
-            if (chunk.text) fullText += chunk.text;
-            if (chunk.functionCalls) functionCalls.push(...chunk.functionCalls.map(fc => ({ id: `fc-${Date.now()}-${Math.random()}`, name: fc.name, args: fc.args })));
-            const newSources = extractSources(chunk);
-            sources = Array.from(new Map([...sources, ...newSources].map(s => [s.uri, s])).values());
-            if (onStreamUpdate) onStreamUpdate(fullText);
-
-            if (!isGraphStep) {
-                 get()._updateMessage(assistantMessageId, { content: fullText, sources, functionCalls });
-            }
-        }
-        return { fullText, sources, functionCalls };
-    };
+    const refreshRunningState = () => set({ isGraphRunning: engine.activeRunCount() > 0 });
 
-    const handleSendMessageInternal = async (prompt: string, file?: FileData, repoUrl?: string, forcedTask?: TaskType, isGraphStep: boolean = false, manageLoadingState: boolean = true, onStreamUpdate?: (streamedText: string) => void): Promise<ChatMessage> => {
-        const assistantMsgId = isGraphStep ? `step-${Date.now()}-${Math.random()}` : Date.now().toString();
-        let routedTask = forcedTask;
-
-        try {
-            if (!routedTask) {
-                const routerHistory = get().messages.slice(-5).map(m => ({ role: m.role === 'user' ? 'user' as const : 'model' as const, parts: [{ text: m.content }] }));
-                const ai = getAiClient();
-                const routerResp = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({ 
-                    model: 'gemini-2.5-flash', 
-                    contents: [...routerHistory, { role: 'user', parts: [{ text: prompt }] }], 
-                    config: { systemInstruction: { parts: [{ text: ROUTER_SYSTEM_INSTRUCTION }] }, tools: [{ functionDeclarations: [ROUTER_TOOL] }] }
-                }));
-                const proposedRoute = routerResp.functionCalls?.[0]?.args.route as TaskType | undefined;
-                routedTask = proposedRoute && AGENT_ROSTER.hasOwnProperty(proposedRoute) ? proposedRoute : TaskType.Chat;
-            } else if (!isGraphStep) {
-                get()._addMessage({ id: assistantMsgId, role: 'assistant', content: '', isLoading: true, taskType: routedTask });
-            }
-
-            if (file?.type.startsWith('image/')) routedTask = TaskType.Vision;
-            if(!isGraphStep) get()._updateMessage(assistantMsgId, { taskType: routedTask });
-            
-            const chat = getChat(routedTask!, get().messages);
-            const parts: Part[] = [{ text: prompt }];
-            if (file) parts.push(fileToGenerativePart(file));
-            
-            const stream = await withRetry<AsyncGenerator<GenerateContentResponse>>(() => chat.sendMessageStream({ message: { role: 'user', parts } }));
-            const streamOutput = await processStream(stream, assistantMsgId, isGraphStep, onStreamUpdate);
-            
-            let vizSpec: VizSpec | undefined = undefined;
-            if (routedTask === TaskType.DataAnalyst) {
-                const vizCall = streamOutput.functionCalls.find(fc => fc.name === 'submit_visualization_spec');
-                vizSpec = vizCall?.args as VizSpec;
-            }
-
-            const finalMessage: ChatMessage = { id: assistantMsgId, role: 'assistant', content: streamOutput.fullText, isLoading: false, sources: streamOutput.sources, functionCalls: streamOutput.functionCalls, ragSources: [], vizSpec, taskType: routedTask };
-            if (!isGraphStep) get()._updateMessage(assistantMsgId, finalMessage);
-            return finalMessage;
-        } catch(e) {
-            const agentName = AGENT_ROSTER[routedTask!]?.title || 'Router';
-            const formattedError = formatApiError(e, agentName);
-            if (!isGraphStep) {
-                get()._updateMessage(assistantMsgId, { isLoading: false, content: formattedError });
-                if (manageLoadingState) get()._setLoading(false);
-            }
-            throw new Error(formattedError);
+    // Appends a plan version to the message's history. The plan it replaces is stored with its final
+    // step states; a history that predates tracking starts with the replaced plan as version 1.
+    const recordPlanRevision = (messageId: string, plan: Plan, trigger?: string, replaced?: Plan | null) => {
+        const history: PlanRevision[] = [...(get().messages.find(m => m.id === messageId)?.planHistory || [])];
+        if (replaced) {
+            const last = history[history.length - 1];
+            if (last) history[history.length - 1] = { ...last, steps: clonePlan(replaced).plan };
+            else history.push({ version: 1, steps: clonePlan(replaced).plan, createdAt: Date.now() });
         }
+        history.push({ version: history.length + 1, steps: clonePlan(plan).plan, createdAt: Date.now(), ...(trigger && { trigger }) });
+        get()._updateMessage(messageId, { planHistory: history });
     };
-    
-    // The Supervisor Loop (Parallel Execution Engine)
-    const runGraph = async (state: GraphState) => {
-      const updateGraphHistory = (report: string) => {
-        state.history.push({ id: `graph-step-${Date.now()}`, role: 'assistant', content: report, taskType: TaskType.Supervisor });
-        get()._updateMessage(state.id, { supervisorReport: state.history.map(m => m.content).join('\n') });
-      };
-
-      while (state.nextAgent !== 'A_FINAL') {
-        let currentNode = state.nextAgent as TaskType;
-        let fileData: FileData | undefined = state.history.find(m => m.role === 'user')?.file;
-
-        // --- 1. CHECK FOR PARALLEL PLAN EXECUTION ---
-        if (state.plan && state.plan.plan.length > 0) {
-             const plan = state.plan;
-             const completedStepIds = new Set(plan.plan.filter(s => s.status === 'completed').map(s => s.step_id));
-             
-             // Identify all steps that are pending and have all dependencies met
-             const runnableSteps = plan.plan.filter(s => 
-                 s.status === 'pending' && 
-                 (s.dependencies || []).every(depId => completedStepIds.has(depId))
-             );
-
-             if (runnableSteps.length > 0) {
-                 updateGraphHistory(`\n---⚡ PARALLEL EXECUTION: Running ${runnableSteps.length} steps...`);
-                 
-                 // Mark all as in-progress first
-                 runnableSteps.forEach(step => get()._updatePlanStep(plan.id, step.step_id, 'in-progress', 'Starting parallel execution...'));
-
-                 // Execute all runnable steps in parallel using Promise.all
-                 await Promise.all(runnableSteps.map(async (step) => {
-                     try {
-                        await executeStep(step, plan, state, fileData);
-                     } catch (e) {
-                        console.error(`Step ${step.step_id} failed:`, e);
-                        get()._updatePlanStep(plan.id, step.step_id, 'failed', (e as Error).message);
-                        updateGraphHistory(`\n---❌ Step ${step.step_id} failed: ${(e as Error).message}`);
-                     }
-                 }));
-                 
-                 // Loop back immediately to check for next set of runnable steps or completion
-                 // This avoids calling the Supervisor LLM if we are just churning through the plan
-                 continue;
-             }
-        }
 
-        // --- 2. DETERMINISTIC ORCHESTRATION (LLM ROUTING) ---
-        // If no plan steps could be run deterministically, we ask the Supervisor LLM what to do.
-        try {
-          // Special handling for Planner and Critique (Meta-Agents)
-          if (currentNode === TaskType.Planner) {
-               updateGraphHistory(`\n---▶ Supervisor: Calling \`Planner\`...`);
-               const stateJson = JSON.stringify({ ...state, history: state.history.slice(-3) }, null, 2);
-               const pastLessons: ReflexionEntry[] = await db.findSimilarReflexions(await embeddingService.generateEmbedding(state.originalPrompt), 2);
-               const lessonText = pastLessons.length > 0 ? `PREVIOUS FAILED ATTEMPTS (for learning):\n${JSON.stringify(pastLessons)}` : "N/A";
-               const plannerPrompt = AGENT_ROSTER[TaskType.Planner].systemInstruction
-                    .replace('{graph_state_json}', stateJson)
-                    .replace('{past_lessons}', lessonText);
-
-                const agentResponse = await handleSendMessageInternal(plannerPrompt, fileData, undefined, TaskType.Planner, true, false);
-                const planCall = agentResponse.functionCalls?.find(fc => fc.name === 'submit_plan');
-                if (!planCall || !planCall.args.plan) throw new Error("Planner agent did not return a valid plan structure.");
-                state.plan = { id: `plan-${state.id}`, plan: planCall.args.plan.map((step: any) => ({ ...step, status: 'pending' })) };
-                state.lastOutput = state.plan;
-                get()._updateMessage(state.id, { plan: state.plan });
-                updateGraphHistory(`Planner output: Plan with ${state.plan.plan.length} steps.`);
-
-          } else if (currentNode === TaskType.Critique) {
-                updateGraphHistory(`\n---▶ Supervisor: Calling \`Critique\`...`);
-                const critiquePrompt = `Critique the last output based on the original goal. \n[Original Goal]: ${state.originalPrompt}\n[Last Failed Output]: ${JSON.stringify(state.lastOutput, null, 2)}`;
-                const agentResponse = await handleSendMessageInternal(critiquePrompt, fileData, undefined, TaskType.Critique, true, false);
-                const critiqueCall = agentResponse.functionCalls?.find(fc => fc.name === CRITIQUE_TOOL.name);
-                if (!critiqueCall) throw new Error("Critique agent failed to provide a valid critique.");
-                state.lastOutput = critiqueCall.args;
-                updateGraphHistory(`Critique output: ${critiqueCall.args.critique}`);
-          } 
-          // Note: Normal workers are handled by the parallel block above. If we reach here with a worker node,
-          // it implies a direct routing or a single-step fallback.
-          
-        } catch (e: any) {
-            const errorMsg = e.message || "An unknown execution error occurred.";
-            updateGraphHistory(`\n---❌ ERROR in \`${currentNode}\`: ${errorMsg}`);
-            state.error = errorMsg;
-            state.lastOutput = { error: errorMsg, agent: currentNode };
-        }
-
-        // --- 3. SUPERVISOR DECISION ---
-        const supervisorPrompt = SUPERVISOR_SYSTEM_INSTRUCTION.replace('{graph_state_json}', JSON.stringify({ ...state, history: state.history.slice(-3) }, null, 2));
-        const supervisorMsg = await handleSendMessageInternal(supervisorPrompt, undefined, undefined, TaskType.Supervisor, true, false);
-        const routeCall = supervisorMsg.functionCalls?.find(fc => fc.name === SUPERVISOR_ROUTER_TOOL.name);
-
-        if (!routeCall || !routeCall.args.agent_to_call) {
-          const errorText = "Supervisor failed to route. Halting graph. This could be a temporary model issue.";
-          updateGraphHistory(`\n---🛑 FATAL ERROR: ${errorText}`);
-          get()._updateMessage(state.id, { content: `**Execution Failed:** ${errorText}`});
-          state.nextAgent = 'A_FINAL';
-        } else {
-          state.nextAgent = routeCall.args.agent_to_call as GraphNode;
-          updateGraphHistory(`Supervisor decision: Route to \`${state.nextAgent}\`. Reason: ${routeCall.args.reasoning}`);
+    // The orchestrator runs outside the store: it reads settings and storage through this host and reports back in events
+    const engine = createOrchestrator({
+        getSettings: () => get(),
+        getClient: getAiClient,
+        getConversation: () => get().messages,
+        saveCheckpoint: async (checkpoint) => { await db.saveGraphCheckpoint(checkpoint); },
+        deleteCheckpoint: async (runId) => { await db.deleteGraphCheckpoint(runId); },
+        findLessons: async (prompt, limit) => db.findSimilarReflexions(await embeddingService.generateEmbedding(prompt), limit),
+        saveLesson: async (lesson) => {
+            const promptEmbedding = await embeddingService.generateEmbedding(lesson.original_prompt);
+            await db.addReflexionEntry({ promptEmbedding, ...lesson });
+        },
+    });
+    engine.subscribe(event => {
+        switch (event.type) {
+            case 'run_started':
+                refreshRunningState();
+                break;
+            case 'run_report':
+                get()._updateMessage(event.runId, { supervisorReport: event.report, trace: event.trace });
+                break;
+            case 'run_finished':
+                get()._updateMessage(event.runId, { trace: event.trace });
+                refreshRunningState();
+                break;
+            case 'plan_created':
+                get()._updateMessage(event.runId, { plan: event.plan });
+                recordPlanRevision(event.runId, event.plan, event.trigger, event.replaced);
+                break;
+            case 'step_status':
+                get()._updatePlanStep(event.planId, event.stepId, event.status, event.result);
+                break;
+            case 'step_chunk':
+                get()._updatePlanStep(event.planId, event.stepId, 'in-progress', event.text + ' |');
+                break;
+            case 'step_patch':
+                get()._patchPlanStep(event.planId, event.stepId, event.patch);
+                break;
+            case 'message_chunk':
+                get()._updateMessage(event.messageId, { content: event.content, sources: event.sources, functionCalls: event.functionCalls });
+                break;
+            case 'message_update':
+                get()._updateMessage(event.messageId, event.update);
+                break;
+            case 'model_call':
+                recordModelCall(event.call, event.usage);
+                break;
         }
-      }
-
-      updateGraphHistory(`\n---✅ Graph complete. Final output generated.`);
-      return state.lastOutput;
-    };
-
-    // Helper to execute a single step (used in parallel loop)
-    const executeStep = async (step: PlanStep, plan: Plan, state: GraphState, fileData?: FileData) => {
-        const agentType = step.tool_to_use as TaskType;
-        get()._updatePlanStep(plan.id, step.step_id, 'in-progress', 'Executing...');
-
-        const planStateSummary = plan.plan.map(p => {
-            const isCurrent = p.step_id === step.step_id;
-            return `  - Step ${p.step_id} (${p.tool_to_use}): ${p.status}${isCurrent ? ' <-- YOUR CURRENT STEP' : ''}`;
-        }).join('\n');
-
-        const agentPrompt = `
-You are an expert agent executing one step of a larger plan. Your response must be the direct output for YOUR CURRENT STEP only. Do not add conversational filler.
-
-### CONTEXT: OVERALL GOAL
-${state.originalPrompt}
-
-### CONTEXT: FULL PLAN STATE
-Here is the current status of all steps in the plan.
-${planStateSummary}
-
-### YOUR CURRENT TASK
-Your job is to execute the step marked "<-- YOUR CURRENT STEP".
-- **Description:** ${step.description}
-- **Acceptance Criteria:** ${step.acceptance_criteria || 'N/A'}
-
-First, internally reflect on how your task contributes to the overall goal. Then, perform the action and provide only the result.
-`;
-        // Execute agent
-        const agentResponse = await handleSendMessageInternal(agentPrompt, fileData, undefined, agentType, true, false, (streamedText) => {
-            get()._updatePlanStep(plan.id, step.step_id, 'in-progress', streamedText + ' |');
-        });
-
-        // Update state
-        state.lastOutput = agentResponse.content;
-        get()._updatePlanStep(plan.id, step.step_id, 'completed', state.lastOutput);
-        
-        // Add to history for context
-        state.history.push({
-             id: `step-${step.step_id}-result`,
-             role: 'assistant',
-             content: `[Step ${step.step_id} Result]: ${state.lastOutput}`,
-             taskType: agentType
-        });
-    };
-
-    const generateFollowUps = async (history: ChatMessage[], targetMessage: ChatMessage) => {
-        try {
-            const prompt = `Based on the following conversation, suggest exactly 3 concise and relevant follow-up questions or actions a user might take next.
-            Prioritize actions that use agent commands like /research, /code, etc.
-            
-            CONVERSATION HISTORY (most recent messages):
-            ${history.slice(-4).map(m => `${m.role.toUpperCase()}: ${m.content.substring(0, 300)}`).join('\n---\n')}
-            `;
-
-            const schema = {
-                type: Type.OBJECT,
-                properties: {
-                    suggestions: {
-                        type: Type.ARRAY,
-                        description: "An array of exactly 3 string suggestions.",
-                        items: { type: Type.STRING }
-                    }
-                },
-                required: ['suggestions']
-            };
+    });
+    // A run resumed or started on an existing message keeps adding to the trace the message already has
+    const messageTrace = (messageId: string) => get().messages.find(m => m.id === messageId)?.trace;
 
-            const ai = getAiClient();
-            const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: [{ role: 'user', parts: [{ text: prompt }] }],
-                config: { responseMimeType: "application/json", responseSchema: schema }
-            }));
-            
-            let suggestions: string[] = [];
-            try {
-                const parsed = JSON.parse(response.text || '{}');
-                if (parsed.suggestions && Array.isArray(parsed.suggestions)) {
-                    suggestions = parsed.suggestions;
-                }
-            } catch (e) {
-                console.warn("Follow-up suggestion generation returned non-JSON.", e);
-            }
-
-            get()._updateMessage(targetMessage.id, { followUpSuggestions: suggestions });
-
-        } catch (e) {
-            console.error("Failed to generate follow-up suggestions:", e);
-            // Set to empty array on failure so it doesn't show loading forever
-            get()._updateMessage(targetMessage.id, { followUpSuggestions: [] });
-        }
-    };
-    
     // Atomically load session from localStorage for initial state
     const savedState = safeLocalStorageGet('agentic-session', null);
     const initialMessages = (savedState && savedState.version === APP_VERSION) ? savedState.messages : [];
+    const initialUsageRecords: UsageRecord[] = (savedState && savedState.version === APP_VERSION && savedState.usageRecords) || [];
 
     return {
         // Initial State
@@ -421,6 +222,17 @@ First, internally reflect on how your task contributes to the overall goal. Then
         pyodide: null,
         isPyodideReady: false,
         isEmbedderReady: false,
+        isGraphRunning: false,
+        cassetteMode: 'off',
+        providerSettings: { ...DEFAULT_PROVIDER_SETTINGS, ...safeLocalStorageGet('agentura-provider-settings', {}) },
+        modelPricing: { ...MODEL_PRICING, ...safeLocalStorageGet('agentura-model-pricing', {}) },
+        usageRecords: initialUsageRecords,
+        routerComplexityThreshold: safeLocalStorageGet('agentura-router-threshold', DEFAULT_ROUTER_COMPLEXITY_THRESHOLD),
+        supervisorMode: safeLocalStorageGet('agentura-supervisor-mode', 'llm'),
+        reviewPlans: safeLocalStorageGet('agentura-review-plans', false),
+        schedulerSettings: { ...DEFAULT_SCHEDULER_SETTINGS, ...safeLocalStorageGet('agentura-scheduler-settings', {}) },
+        roundTableSettings: clampRoundTableSettings({ ...DEFAULT_ROUND_TABLE_SETTINGS, ...safeLocalStorageGet('agentura-round-table-settings', {}) }),
+        cassetteEntryCount: 0,
 
         // Actions
         setPersona: (newPersona) => set(state => {
@@ -449,27 +261,74 @@ First, internally reflect on how your task contributes to the overall goal. Then
             set(state => ({ isLoading: true, messages: [...state.messages, userMsg] }));
 
             const assistantMsgId = (parseInt(userMsg.id) + 1).toString();
-            const assistantMsg: ChatMessage = { id: assistantMsgId, role: 'assistant', content: 'Supervisor: Initializing graph...', isLoading: true, taskType: TaskType.Supervisor, supervisorReport: 'Supervisor: Initializing graph...'};
-            get()._addMessage(assistantMsg);
-
-            const initialState: GraphState = { id: assistantMsgId, originalPrompt: prompt, plan: null, history: [userMsg], lastOutput: null, nextAgent: forcedTask || TaskType.Planner, error: null };
+            if (get().swarmMode === SwarmMode.TheRoundTable) {
+                get()._addMessage({ id: assistantMsgId, role: 'assistant', content: '', isLoading: true, taskType: TaskType.Chat });
+                await engine.runRoundTable(prompt, assistantMsgId);
+            } else if (get().swarmMode === SwarmMode.SecurityService) {
+                // The Security Service always runs its fixed pipeline, whatever agent was asked for
+                const assistantMsg: ChatMessage = { id: assistantMsgId, role: 'assistant', content: 'Supervisor: Initializing graph...', isLoading: true, taskType: TaskType.Supervisor, supervisorReport: 'Supervisor: Initializing graph...'};
+                get()._addMessage(assistantMsg);
+                const initialState: GraphState = { id: assistantMsgId, originalPrompt: prompt, plan: null, history: [userMsg], lastOutput: null, nextAgent: SOTA_SECURITY_PIPELINE.steps[0].agent, error: null, blackboard: {}, budget: { ...DEFAULT_RUN_BUDGET }, budgetUsage: createBudgetUsage(), pipeline: { id: SOTA_SECURITY_PIPELINE.id, stepIndex: 0 }, roster: [...SOTA_SECURITY_PIPELINE.roster] };
+                await engine.runGraphForMessage(initialState);
+            } else {
+                // The Router decides whether the query needs the graph at all
+                get()._addMessage({ id: assistantMsgId, role: 'assistant', content: '', isLoading: true, taskType: TaskType.Router });
+                await engine.answer(userMsg, assistantMsgId, { forcedTask });
+            }
+            get()._setLoading(false);
+        },
+        handleOverrideRouting: async (messageId) => {
+            const { messages } = get();
+            const index = messages.findIndex(m => m.id === messageId);
+            const message = messages[index];
+            const userMsg = messages.slice(0, index).reverse().find(m => m.role === 'user');
+            if (!message?.routing || !userMsg || get().isLoading) return;
+
+            // The answer is replaced in place; calls already made stay billed to the message
+            const routing: RoutingDecision = { ...message.routing, path: message.routing.path === 'direct' ? 'graph' : 'direct', overridden: true };
+            if (routing.path === 'direct' && routing.route === TaskType.Planner) routing.route = TaskType.Chat;
+            get()._setLoading(true);
+            get()._updateMessage(messageId, {
+                content: '', isLoading: true, plan: undefined, planHistory: undefined, supervisorReport: undefined, functionCalls: undefined,
+                critique: undefined, sources: undefined, vizSpec: undefined, followUpSuggestions: [], interruptedRun: undefined,
+            });
+            await engine.answer(userMsg, messageId, { routing });
+            get()._setLoading(false);
+        },
+        handleResumeGraph: async (messageId) => {
+            const checkpoint = await db.getGraphCheckpoint(messageId);
+            if (!checkpoint) {
+                console.error("No checkpoint found for interrupted run.", messageId);
+                get()._updateMessage(messageId, { interruptedRun: undefined });
+                return;
+            }
 
-            try {
-                const finalOutput = await runGraph(initialState);
-                const finalContent = (typeof finalOutput === 'string' || !finalOutput) ? (finalOutput || "Graph complete.") : JSON.stringify(finalOutput, null, 2);
-                get()._updateMessage(assistantMsgId, { content: finalContent, isLoading: false });
-
-                // Generate follow-ups after success
-                const finalMessage = get().messages.find(m => m.id === assistantMsgId);
-                if (finalMessage) {
-                    generateFollowUps(get().messages, finalMessage);
+            // Steps that were mid-flight when the page went away have to run again;
+            // an expanded sub-plan step stays in progress and only its own steps are re-queued
+            const state = checkpoint.state;
+            const requeue = (steps: PlanStep[]) => steps.forEach(step => {
+                if (step.status === 'in-progress' && step.subplan) return requeue(step.subplan.plan);
+                if (step.status === 'in-progress' || step.status === 'awaiting-approval') {
+                    step.status = 'pending';
+                    step.result = undefined;
+                    step.startTime = undefined;
+                    step.queue = undefined;
                 }
-            } catch (e) {
-                 const error = e as Error;
-                get()._updateMessage(assistantMsgId, { content: `Graph execution failed: ${error.message}`, isLoading: false, followUpSuggestions: [] });
-            } finally {
-                get()._setLoading(false);
-            }
+            });
+            requeue(state.plan?.plan || []);
+
+            get()._setLoading(true);
+            get()._updateMessage(messageId, { isLoading: true, interruptedRun: undefined, ...(state.plan && { plan: clonePlan(state.plan) }) });
+            // The wall clock only counts time the run was actually executing
+            state.budget = state.budget || { ...DEFAULT_RUN_BUDGET };
+            state.budgetUsage = state.budgetUsage || createBudgetUsage();
+            state.budgetUsage.startedAt += Date.now() - checkpoint.updatedAt;
+            await engine.runGraphForMessage(state, messageTrace(messageId));
+            get()._setLoading(false);
+        },
+        handleDiscardInterruptedRun: async (messageId) => {
+            await db.deleteGraphCheckpoint(messageId);
+            get()._updateMessage(messageId, { interruptedRun: undefined });
         },
         addSessionFeedback: (taskType, feedback) => set(state => ({
             sessionFeedback: { ...state.sessionFeedback, [taskType]: [...(state.sessionFeedback[taskType] || []), feedback] }
@@ -503,12 +362,32 @@ First, internally reflect on how your task contributes to the overall goal. Then
                 console.error("Could not find message for plan execution.");
                 return;
             }
+            // The plan is already executing; a second run on the same message would race the first
+            if (get().isLoading || engine.isRunActive(messageWithPlan.id)) {
+                console.warn("handleExecutePlan: A run is already in progress for this plan.");
+                return;
+            }
 
             get()._setLoading(true);
 
+            // Steps interrupted by a cancelled run are simply re-queued
+            const plan = clonePlan(planToExecute);
+            plan.plan.forEach(step => {
+                if (step.status === 'cancelled') {
+                    step.status = 'pending';
+                    step.result = undefined;
+                    step.startTime = undefined;
+                    step.endTime = undefined;
+                }
+            });
+            // A plan changed in the editor becomes a new version
+            if (messageWithPlan.plan && hasPlanChanges(diffPlans(messageWithPlan.plan.plan, plan.plan))) {
+                recordPlanRevision(messageWithPlan.id, plan, 'Edited by user.', messageWithPlan.plan);
+            }
+
             // Determine the first runnable step in JS to avoid the error-driven flow.
-            const completedStepIds = new Set(planToExecute.plan.filter(s => completedSteps.includes(s.step_id) || s.status === 'completed').map(s => s.step_id));
-            const runnableSteps = planToExecute.plan.filter(s => s.status === 'pending' && (s.dependencies || []).every(depId => completedStepIds.has(depId)));
+            const completedStepIds = new Set(plan.plan.filter(s => completedSteps.includes(s.step_id) || isStepSettled(s)).map(s => s.step_id));
+            const runnableSteps = plan.plan.filter(s => s.status === 'pending' && (s.dependencies || []).every(depId => completedStepIds.has(depId)));
             const firstRunnable = runnableSteps.sort((a,b) => a.step_id - b.step_id)[0];
 
             if (!firstRunnable) {
@@ -518,35 +397,109 @@ First, internally reflect on how your task contributes to the overall goal. Then
             const initialState: GraphState = {
                 id: messageWithPlan.id,
                 originalPrompt: get().messages.find(m => m.role === 'user')?.content || "Execute the provided plan.",
-                plan: planToExecute,
+                plan,
                 history: get().messages.filter(m => parseInt(m.id) < parseInt(messageWithPlan.id)),
                 lastOutput: null,
                 nextAgent: firstRunnable ? firstRunnable.tool_to_use as TaskType : TaskType.Supervisor,
-                error: null
+                error: null,
+                blackboard: {},
+                budget: { ...DEFAULT_RUN_BUDGET },
+                budgetUsage: createBudgetUsage(),
+                roster: getEnabledAgents(get().activeRoster)
             };
             
             if (completedSteps.length > 0 && initialState.plan) {
                 initialState.plan.plan.forEach(step => {
                     if (completedSteps.includes(step.step_id)) {
                         step.status = 'completed';
-                        step.result = 'Pre-completed by user.';
+                        step.result = step.result || 'Pre-completed by user.';
                     }
                 });
             }
+            initialState.blackboard = seedBlackboard(initialState.plan);
             
-            get()._updateMessage(messageWithPlan.id, { plan: initialState.plan });
-
+            get()._updateMessage(messageWithPlan.id, { isLoading: true, plan: initialState.plan && clonePlan(initialState.plan) });
+            await engine.runGraphForMessage(initialState, messageTrace(messageWithPlan.id));
+            get()._setLoading(false);
+        },
+        handleStepApproval: (planId, stepId, decision) => {
+            if (!engine.resolveApproval(planId, stepId, decision)) console.warn(`No step awaiting approval for ${planId}:${stepId}.`);
+        },
+        togglePlanStepApproval: (planId, stepId) => {
+            const storedStep = findPlanStep(get().messages.find(m => m.plan?.id === planId)?.plan?.plan || [], stepId);
+            if (!storedStep) return;
+            const requiresApproval = !storedStep.requires_approval;
+            get()._patchPlanStep(planId, stepId, { requires_approval: requiresApproval, approved: false });
+            engine.setApprovalGate(planId, stepId, requiresApproval);
+        },
+        setProviderSettings: (settings) => {
+            set({ providerSettings: settings });
+            try { localStorage.setItem('agentura-provider-settings', JSON.stringify(settings)); } catch (e) { console.warn('Could not save provider settings to localStorage.')}
+        },
+        setCassetteMode: (mode) => {
+            if (mode === 'record') cassette = createCassette();
+            if (mode === 'replay' && cassette.entries.length === 0) {
+                console.warn("Load a cassette before switching to replay mode.");
+                return;
+            }
+            replayClient = null; // Replay always starts from the first entry
+            set({ cassetteMode: mode, cassetteEntryCount: cassette.entries.length });
+        },
+        loadCassette: async (file) => {
             try {
-                await runGraph(initialState);
+                cassette = parseCassette(await file.text());
+                replayClient = null;
+                set({ cassetteMode: 'replay', cassetteEntryCount: cassette.entries.length });
             } catch (e) {
-                const error = e as Error;
-                console.error("Plan execution failed", error);
-                const errorMsg: ChatMessage = { id: `err-${Date.now()}`, role: 'assistant', content: `Plan execution failed: ${error.message}` };
-                get()._addMessage(errorMsg);
-            } finally {
-                get()._setLoading(false);
+                console.error("Failed to load cassette:", e);
+                alert(`Could not load cassette: ${(e as Error).message}`);
             }
         },
+        exportCassette: () => {
+            const url = URL.createObjectURL(new Blob([JSON.stringify(cassette, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `cassette-${new Date(cassette.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        },
+        setModelPricing: (pricing) => {
+            set({ modelPricing: pricing });
+            try { localStorage.setItem('agentura-model-pricing', JSON.stringify(pricing)); } catch (e) { console.warn('Could not save model pricing to localStorage.')}
+        },
+        clearUsageRecords: () => set({ usageRecords: [] }),
+        setRouterComplexityThreshold: (threshold) => {
+            set({ routerComplexityThreshold: threshold });
+            try { localStorage.setItem('agentura-router-threshold', JSON.stringify(threshold)); } catch (e) { console.warn('Could not save the router threshold to localStorage.')}
+        },
+        setSupervisorMode: (mode) => {
+            set({ supervisorMode: mode });
+            try { localStorage.setItem('agentura-supervisor-mode', JSON.stringify(mode)); } catch (e) { console.warn('Could not save the supervisor mode to localStorage.')}
+        },
+        setReviewPlans: (reviewPlans) => {
+            set({ reviewPlans });
+            try { localStorage.setItem('agentura-review-plans', JSON.stringify(reviewPlans)); } catch (e) { console.warn('Could not save the plan review setting to localStorage.')}
+        },
+        setSchedulerSettings: (settings) => {
+            set({ schedulerSettings: settings });
+            try { localStorage.setItem('agentura-scheduler-settings', JSON.stringify(settings)); } catch (e) { console.warn('Could not save scheduler settings to localStorage.')}
+        },
+        setRoundTableSettings: (settings) => {
+            const clamped = clampRoundTableSettings(settings);
+            set({ roundTableSettings: clamped });
+            try { localStorage.setItem('agentura-round-table-settings', JSON.stringify(clamped)); } catch (e) { console.warn('Could not save Round Table settings to localStorage.')}
+        },
+        exportUsageCsv: () => {
+            const url = URL.createObjectURL(new Blob([usageRecordsToCsv(get().usageRecords)], { type: 'text/csv' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `agentura-usage-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        },
+        handleStopGraph: () => {
+            engine.stopAll();
+        },
         handleExecuteCode: async (messageId, functionCallId, overrideCode) => {
             get()._setLoading(true);
         
@@ -604,38 +557,53 @@ First, internally reflect on how your task contributes to the overall goal. Then
             const assistantResponseId = `assistant-${functionCall.id}`;
             get()._addMessage({ id: assistantResponseId, role: 'assistant', content: '', isLoading: true, taskType: TaskType.Code });
             
-            const historyForContinuation = [...get().messages];
-            const chat = getChat(TaskType.Code, historyForContinuation);
-            
-            try {
-                const stream = await withRetry<AsyncGenerator<GenerateContentResponse>>(() => chat.sendMessageStream({ message: { role: 'user', parts: [{ text: "The code has been executed. Analyze the result and continue." }] } }));
-                const { fullText, sources, functionCalls } = await processStream(stream, assistantResponseId, false);
-                get()._updateMessage(assistantResponseId, { content: fullText, isLoading: false, sources, functionCalls });
-            } catch (e) {
-                const formattedError = formatApiError(e, "Code Agent (Continuation)");
-                get()._updateMessage(assistantResponseId, { isLoading: false, content: formattedError });
-            } finally {
-                get()._setLoading(false);
-            }
+            await engine.continueCodeAgent(assistantResponseId);
+            get()._setLoading(false);
         },
         
         // Internal Actions
         _addMessage: (message) => set(state => ({ messages: [...state.messages, message] })),
         _updateMessage: (messageId, update) => set(state => ({ messages: state.messages.map(msg => msg.id === messageId ? { ...msg, ...update } : msg) })),
         _setLoading: (isLoading) => set({ isLoading }),
+        _patchPlanStep: (planId, stepId, patch) => set(state => ({
+            messages: state.messages.map(msg => msg.plan?.id === planId
+                ? { ...msg, plan: { ...msg.plan, plan: mapPlanStep(msg.plan.plan, stepId, step => ({ ...step, ...patch })) } }
+                : msg),
+        })),
+        _recoverInterruptedRuns: async () => {
+            const checkpoints = await db.getAllGraphCheckpoints();
+            const checkpointsById = new Map(checkpoints.map(c => [c.id, c]));
+
+            // Nothing is running yet, so every checkpoint belongs to a run cut off by the reload,
+            // and any message still loading without one can never finish.
+            get().messages.filter(m => m.isLoading || checkpointsById.has(m.id)).forEach(m => {
+                const checkpoint = checkpointsById.get(m.id);
+                if (!checkpoint) {
+                    get()._updateMessage(m.id, { isLoading: false, content: m.content || '**Execution was interrupted.**', followUpSuggestions: [] });
+                    return;
+                }
+                const unfinished = checkpoint.state.plan?.plan.filter(s => !isStepSettled(s)).sort((a, b) => a.step_id - b.step_id) || [];
+                get()._updateMessage(m.id, {
+                    isLoading: false,
+                    followUpSuggestions: [],
+                    interruptedRun: { resumeFromStep: unfinished[0]?.step_id ?? null, savedAt: checkpoint.updatedAt },
+                });
+            });
+
+            // Checkpoints whose message is gone (e.g. the session was cleared) can never be resumed
+            const messageIds = new Set(get().messages.map(m => m.id));
+            await Promise.all(checkpoints.filter(c => !messageIds.has(c.id)).map(c => db.deleteGraphCheckpoint(c.id)));
+        },
         _updatePlanStep: (planId, stepId, status, result) => set(state => ({
             messages: state.messages.map(msg => {
                 if (msg.plan?.id === planId) {
                     const newPlan = {
                         ...msg.plan,
-                        plan: msg.plan.plan.map(step => {
-                            if (step.step_id === stepId) {
-                                const newStep = { ...step, status, ...(result !== undefined && { result }) };
-                                if (status === 'in-progress' && !step.startTime) newStep.startTime = Date.now();
-                                if ((status === 'completed' || status === 'failed') && !step.endTime) newStep.endTime = Date.now();
-                                return newStep;
-                            }
-                            return step;
+                        plan: mapPlanStep(msg.plan.plan, stepId, step => {
+                            const newStep = { ...step, status, ...(result !== undefined && { result }) };
+                            if (status === 'in-progress' && !step.startTime) newStep.startTime = Date.now();
+                            if ((status === 'completed' || status === 'failed' || status === 'cancelled' || status === 'skipped') && !step.endTime) newStep.endTime = Date.now();
+                            return newStep;
                         })
                     };
                     return { ...msg, plan: newPlan };
@@ -651,7 +619,7 @@ useAppStore.subscribe(
   (state) => {
     if (typeof window !== 'undefined' && window.localStorage) {
         try {
-            const sessionState = { version: APP_VERSION, messages: state.messages };
+            const sessionState = { version: APP_VERSION, messages: state.messages, usageRecords: state.usageRecords };
             localStorage.setItem('agentic-session', JSON.stringify(sessionState));
         } catch (e) { console.error("Failed to save session", e); }
     }
@@ -695,6 +663,11 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
         initializeServices();
     }, []);
 
+    // Effect to surface runs that a reload interrupted, so they can be resumed from their checkpoint
+    useEffect(() => {
+        useAppStore.getState()._recoverInterruptedRuns();
+    }, []);
+
     useEffect(() => {
         document.body.className = `bg-background ${theme}`;
     }, [theme]);
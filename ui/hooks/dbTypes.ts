@@ -1,5 +1,6 @@
 
 // This file isolates Dexie-specific types to prevent import errors in non-Dexie modules.
+import { ReflexionEntry } from '../../types';
 
 export interface DocChunk {
     id: string; // Primary key (e.g., "my-file.txt-0")
@@ -12,3 +13,7 @@ export interface ArchiveSummary {
     source: string;
     chunkCount: number;
 }
+
+export interface ScoredReflexionEntry extends ReflexionEntry {
+    similarity: number;
+}
@@ -0,0 +1,55 @@
+import { ModelPrice, TaskType, TokenUsage, UsageRecord } from '../../types';
+
+export const priceUsage = (usage: TokenUsage, price?: ModelPrice): number | null => {
+    if (!price) return null;
+    const outputTokens = usage.candidatesTokens + usage.thoughtsTokens;
+    return (usage.promptTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export interface UsageSummary {
+    calls: number;
+    promptTokens: number;
+    candidatesTokens: number;
+    thoughtsTokens: number;
+    totalTokens: number;
+    costUsd: number;
+    unpricedCalls: number; // Calls whose model had no price; their tokens are counted but not costed
+}
+
+const emptySummary = (): UsageSummary => ({ calls: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, totalTokens: 0, costUsd: 0, unpricedCalls: 0 });
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => records.reduce((sum, r) => {
+    sum.calls++;
+    sum.promptTokens += r.usage.promptTokens;
+    sum.candidatesTokens += r.usage.candidatesTokens;
+    sum.thoughtsTokens += r.usage.thoughtsTokens;
+    sum.totalTokens += r.usage.totalTokens;
+    if (r.costUsd === null) sum.unpricedCalls++;
+    else sum.costUsd += r.costUsd;
+    return sum;
+}, emptySummary());
+
+export const summarizeUsageByAgent = (records: UsageRecord[]): [TaskType, UsageSummary][] => {
+    const groups = new Map<TaskType, UsageRecord[]>();
+    records.forEach(r => groups.set(r.taskType, [...(groups.get(r.taskType) || []), r]));
+    return Array.from(groups, ([taskType, group]): [TaskType, UsageSummary] => [taskType, summarizeUsage(group)])
+        .sort((a, b) => b[1].costUsd - a[1].costUsd || b[1].totalTokens - a[1].totalTokens);
+};
+
+// Sub-cent amounts are common per call, so small costs keep more precision
+export const formatCost = (costUsd: number): string =>
+    costUsd === 0 ? '$0.00' : costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+
+const csvCell = (value: string | number | null | undefined): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageRecordsToCsv = (records: UsageRecord[]): string => {
+    const header = ['timestamp', 'agent', 'provider', 'model', 'message_id', 'run_id', 'step_id', 'prompt_tokens', 'candidates_tokens', 'thoughts_tokens', 'total_tokens', 'cost_usd'];
+    const rows = records.map(r => [
+        new Date(r.timestamp).toISOString(), r.taskType, r.provider, r.model, r.messageId, r.runId, r.stepId,
+        r.usage.promptTokens, r.usage.candidatesTokens, r.usage.thoughtsTokens, r.usage.totalTokens, r.costUsd,
+    ].map(csvCell).join(','));
+    return [header.join(','), ...rows].join('\n');
+};
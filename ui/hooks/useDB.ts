@@ -1,6 +1,7 @@
 
 import Dexie, { Table } from 'dexie';
-import { DocChunk, ArchiveSummary } from './dbTypes'; // Create dbTypes.ts
+import { DocChunk, ArchiveSummary, ScoredReflexionEntry } from './dbTypes'; // Create dbTypes.ts
+import { GraphCheckpoint } from '../../engine/checkpoint';
 import { ReflexionEntry } from '../../types';
 
 export * from './dbTypes';
@@ -9,11 +10,12 @@ export * from './dbTypes';
 let dbInstance: (Dexie & { 
     chunks: Table<DocChunk, string>;
     reflexionMemory: Table<ReflexionEntry, number>; // MANDATE 3.1
+    graphCheckpoints: Table<GraphCheckpoint, string>;
 }) | null = null;
 
 const getDbInstance = () => {
     if (dbInstance) {
-        return dbInstance as Dexie & { chunks: Table<DocChunk, string>, reflexionMemory: Table<ReflexionEntry, number> };
+        return dbInstance as Dexie & { chunks: Table<DocChunk, string>, reflexionMemory: Table<ReflexionEntry, number>, graphCheckpoints: Table<GraphCheckpoint, string> };
     }
     if (typeof window === 'undefined') {
          // Handle SSR or non-browser environments gracefully
@@ -23,6 +25,7 @@ const getDbInstance = () => {
         const db = new Dexie('AgenturaVectorDB') as Dexie & {
             chunks: Table<DocChunk, string>;
             reflexionMemory: Table<ReflexionEntry, number>; // MANDATE 3.1
+            graphCheckpoints: Table<GraphCheckpoint, string>;
         };
 
         // Schema v1
@@ -39,6 +42,13 @@ const getDbInstance = () => {
             // Migration logic, if any, would go here.
             return tx.table("reflexionMemory").clear(); // Ensure it's clean on upgrade
         });
+
+        // Schema v3: Supervisor checkpoints, so a run interrupted by a reload can be resumed
+        db.version(3).stores({
+            chunks: 'id, source',
+            reflexionMemory: '++id',
+            graphCheckpoints: 'id, updatedAt',
+        });
         
         dbInstance = db;
         return dbInstance;
@@ -49,6 +59,8 @@ const getDbInstance = () => {
 };
 
 
+const REFLEXION_SIMILARITY_THRESHOLD = 0.7;
+
 // --- Helper function for client-side vector search ---
 function cosineSimilarity(vecA: number[], vecB: number[]): number {
     if (!vecA || !vecB || vecA.length !== vecB.length) return 0;
@@ -132,6 +144,13 @@ const clearArchive = async () => {
     if (!db) return;
     try {
         await db.chunks.clear();
+    } catch(e) { console.warn("DB clear failed", e); }
+};
+
+const clearReflexionMemory = async () => {
+    const db = getDbInstance();
+    if (!db) return;
+    try {
         await db.reflexionMemory.clear();
     } catch(e) { console.warn("DB clear failed", e); }
 };
@@ -144,7 +163,36 @@ const addReflexionEntry = async (entry: ReflexionEntry) => {
     } catch(e) { console.warn("DB write failed", e); }
 };
 
-const findSimilarReflexions = async (queryEmbedding: number[], topK = 2): Promise<ReflexionEntry[]> => {
+const getAllReflexions = async (): Promise<ReflexionEntry[]> => {
+    const db = getDbInstance();
+    if (!db) return [];
+    try {
+        const entries = await db.reflexionMemory.toArray();
+        return entries.sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || (b.createdAt ?? 0) - (a.createdAt ?? 0));
+    } catch(e) {
+        console.warn("DB read failed", e);
+        return [];
+    }
+};
+
+const updateReflexionEntry = async (id: number, changes: Partial<ReflexionEntry>) => {
+    const db = getDbInstance();
+    if (!db) return;
+    try {
+        return await db.reflexionMemory.update(id, changes);
+    } catch(e) { console.warn("DB update failed", e); }
+};
+
+const deleteReflexionEntry = async (id: number) => {
+    const db = getDbInstance();
+    if (!db) return;
+    try {
+        return await db.reflexionMemory.delete(id);
+    } catch(e) { console.warn("DB delete failed", e); }
+};
+
+// Pinned lessons come first, whatever their similarity; the rest must clear the similarity threshold. At most topK in total.
+const findSimilarReflexions = async (queryEmbedding: number[], topK = 2): Promise<ScoredReflexionEntry[]> => {
     const db = getDbInstance();
     if (!db) return [];
     if (!queryEmbedding || queryEmbedding.length === 0) return [];
@@ -158,16 +206,55 @@ const findSimilarReflexions = async (queryEmbedding: number[], topK = 2): Promis
             similarity: cosineSimilarity(queryEmbedding, entry.promptEmbedding)
         }));
         
-        return scored
-            .sort((a, b) => b.similarity - a.similarity)
-            .filter(r => r.similarity > 0.7)
-            .slice(0, topK);
+        const bySimilarity = scored.sort((a, b) => b.similarity - a.similarity);
+        return [
+            ...bySimilarity.filter(r => r.pinned),
+            ...bySimilarity.filter(r => !r.pinned && r.similarity > REFLEXION_SIMILARITY_THRESHOLD),
+        ].slice(0, topK);
     } catch(e) {
         console.warn("DB search failed", e);
         return [];
     }
 };
 
+const saveGraphCheckpoint = async (checkpoint: GraphCheckpoint) => {
+    const db = getDbInstance();
+    if (!db) return;
+    try {
+        return await db.graphCheckpoints.put(checkpoint);
+    } catch(e) { console.warn("DB checkpoint write failed", e); }
+};
+
+const getGraphCheckpoint = async (id: string): Promise<GraphCheckpoint | undefined> => {
+    const db = getDbInstance();
+    if (!db) return undefined;
+    try {
+        return await db.graphCheckpoints.get(id);
+    } catch(e) {
+        console.warn("DB checkpoint read failed", e);
+        return undefined;
+    }
+};
+
+const getAllGraphCheckpoints = async (): Promise<GraphCheckpoint[]> => {
+    const db = getDbInstance();
+    if (!db) return [];
+    try {
+        return await db.graphCheckpoints.orderBy('updatedAt').toArray();
+    } catch(e) {
+        console.warn("DB checkpoint read failed", e);
+        return [];
+    }
+};
+
+const deleteGraphCheckpoint = async (id: string) => {
+    const db = getDbInstance();
+    if (!db) return;
+    try {
+        return await db.graphCheckpoints.delete(id);
+    } catch(e) { console.warn("DB checkpoint delete failed", e); }
+};
+
 const getChunksBySourcePrefix = async (prefix: string) => {
     const db = getDbInstance();
     if (!db) return [];
@@ -187,5 +274,13 @@ export const db = {
     deleteSource, 
     getChunksBySourcePrefix,
     addReflexionEntry,
+    getAllReflexions,
+    updateReflexionEntry,
+    deleteReflexionEntry,
+    clearReflexionMemory,
     findSimilarReflexions,
+    saveGraphCheckpoint,
+    getGraphCheckpoint,
+    getAllGraphCheckpoints,
+    deleteGraphCheckpoint,
 };